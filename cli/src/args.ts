@@ -0,0 +1,91 @@
+export type OptionSpec = {
+  flag: string;
+  // Property the value is stored under in the command's options.
+  key: string;
+  // Placeholder shown in help, e.g. `<path>`; switches that take no value leave it out.
+  value?: string;
+  description: string;
+  // Consumes every following value up to the next flag, so shell-expanded globs land here too.
+  variadic?: boolean;
+  parse?: (value: string, flag: string) => unknown;
+  // What a switch stores; defaults to true.
+  switchValue?: unknown;
+};
+
+export type CliCommand = {
+  name: string;
+  summary: string;
+  usage: string;
+  options: OptionSpec[];
+  // Returns the process exit code.
+  run: (argv: string[]) => number | Promise<number>;
+};
+
+export type ParsedArgs = {
+  values: Record<string, unknown>;
+  positionals: string[];
+};
+
+export class UsageError extends Error {}
+
+// How the CLI is invoked, for usage and error messages.
+export const CLI_NAME = "npm run cli --";
+
+export function parseCommandArgs(command: CliCommand, argv: string[]): ParsedArgs {
+  const values: Record<string, unknown> = {};
+  const positionals: string[] = [];
+  const help = `Run \`${CLI_NAME} ${command.name} --help\` for the options.`;
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith("-")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [flag, inlineValue] = arg.includes("=") ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)] : [arg, null];
+    const option = command.options.find((candidate) => candidate.flag === flag);
+    if (!option) {
+      throw new UsageError(`Unknown option for ${command.name}: ${flag}. ${help}`);
+    }
+
+    if (!option.value) {
+      if (inlineValue !== null) {
+        throw new UsageError(`${flag} does not take a value. ${help}`);
+      }
+      values[option.key] = option.switchValue ?? true;
+      continue;
+    }
+
+    const raw: string[] = [];
+    if (inlineValue !== null) {
+      raw.push(inlineValue);
+    }
+    while (argv[i + 1] !== undefined && !argv[i + 1].startsWith("--") && (option.variadic || raw.length === 0)) {
+      raw.push(argv[i + 1]);
+      i += 1;
+    }
+    if (raw.length === 0 || raw.some((value) => value === "")) {
+      throw new UsageError(`${flag} expects a value (${option.value}). ${help}`);
+    }
+    const parsed = raw.map((value) => (option.parse ? option.parse(value, flag) : value));
+    values[option.key] = option.variadic ? parsed : parsed[0];
+  }
+
+  return { values, positionals };
+}
+
+export function formatHelp(command: CliCommand): string {
+  const labels = command.options.map((option) => (option.value ? `${option.flag} ${option.value}` : option.flag));
+  const width = Math.max(...labels.map((label) => label.length), "-h, --help".length);
+  const lines = [
+    `Usage: ${CLI_NAME} ${command.usage}`,
+    "",
+    command.summary,
+    "",
+    "Options:",
+    ...command.options.map((option, index) => `  ${labels[index].padEnd(width)}  ${option.description}`),
+    `  ${"-h, --help".padEnd(width)}  Show this help`
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,73 @@
+import { CLI_NAME, formatHelp, UsageError, type CliCommand } from "./args";
+import { exportCommand } from "./export";
+import { ingestCommand, reportCommand } from "./ingest";
+import { lintCommand } from "./rules";
+import { serveCommand } from "./server";
+import { suggestCommand } from "./suggest";
+
+const COMMANDS: CliCommand[] = [ingestCommand, reportCommand, lintCommand, suggestCommand, exportCommand, serveCommand];
+
+function overview(commands: CliCommand[]): string {
+  const width = Math.max(...commands.map((command) => command.name.length));
+  return [
+    `Usage: ${CLI_NAME} <command> [options]`,
+    "",
+    "Commands:",
+    ...commands.map((command) => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    "",
+    `Run \`${CLI_NAME} <command> --help\` for a command's options.`
+  ].join("\n");
+}
+
+// Multi-word commands such as `rules lint` match on their leading words.
+function findCommand(argv: string[]): { command: CliCommand; rest: string[] } | null {
+  for (const command of COMMANDS) {
+    const words = command.name.split(" ");
+    if (words.every((word, index) => argv[index] === word)) {
+      return { command, rest: argv.slice(words.length) };
+    }
+  }
+  return null;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const wantsHelp = argv.includes("--help") || argv.includes("-h");
+  const match = findCommand(argv);
+  if (!match) {
+    const words = argv.filter((arg) => !arg.startsWith("-"));
+    if (words.length === 0) {
+      console.log(overview(COMMANDS));
+      return wantsHelp ? 0 : 2;
+    }
+    const group = COMMANDS.filter((command) => command.name.startsWith(`${words[0]} `));
+    if (group.length > 0 && words.length === 1) {
+      console.log(overview(group));
+      return wantsHelp ? 0 : 2;
+    }
+    throw new UsageError(`Unknown command: ${words.join(" ")}. Run \`${CLI_NAME} --help\` for the commands.`);
+  }
+
+  if (wantsHelp) {
+    console.log(formatHelp(match.command));
+    return 0;
+  }
+  try {
+    return await match.command.run(match.rest);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      throw error;
+    }
+    throw new Error(`${match.command.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Usage mistakes exit with 2 so scripts can tell them apart from a failed run.
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(error instanceof UsageError ? 2 : 1);
+  }
+);
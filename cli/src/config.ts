@@ -0,0 +1,100 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { CLI_NAME, parseCommandArgs, UsageError, type CliCommand } from "./args";
+import { findProjectRoot, loadYamlFile, resolveFromRoot } from "./files";
+import type { CliOptions } from "./ingest";
+
+export type ConfigDefaults = Partial<Omit<CliOptions, "rebuild" | "strict" | "writeOutput" | "watch">>;
+
+export const DEFAULT_CONFIG_FILE = "personal-spend.config.yml";
+
+const pathSchema = z.string().trim().min(1);
+const windowDaysSchema = z.number().int().nonnegative();
+
+// Keys mirror the flag names so a value can move between the command line and the file unchanged.
+const configSchema = z
+  .object({
+    input: z.union([pathSchema, z.array(pathSchema).min(1)]).optional(),
+    outDir: pathSchema.optional(),
+    rules: pathSchema.optional(),
+    overrides: pathSchema.optional(),
+    profiles: pathSchema.optional(),
+    budgets: pathSchema.optional(),
+    fxRates: pathSchema.optional(),
+    merchants: pathSchema.optional(),
+    currency: z
+      .string()
+      .regex(/^[A-Za-z]{3}$/, "expected a three-letter currency code")
+      .transform((code) => code.toUpperCase())
+      .optional(),
+    profile: z.string().trim().min(1).optional(),
+    ledger: pathSchema.optional(),
+    transferWindowDays: windowDaysSchema.optional(),
+    refundWindowDays: windowDaysSchema.optional(),
+    publishWeb: z.boolean().optional()
+  })
+  .strict();
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+// A missing default config file just means no defaults; a missing file passed with --config is an error.
+export function loadConfigDefaults(projectRoot: string, configFile: string | null): ConfigDefaults {
+  const configPath = resolveFromRoot(projectRoot, configFile ?? DEFAULT_CONFIG_FILE);
+  if (configFile && !fs.existsSync(configPath)) {
+    throw new UsageError(`Config file does not exist: ${configPath}`);
+  }
+
+  const parsed = configSchema.safeParse(loadYamlFile<unknown>(configPath, {}));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    throw new UsageError(`${path.basename(configPath)}: ${where}${issue.message}`);
+  }
+
+  const config = parsed.data;
+  return withoutUndefined({
+    inputs: config.input === undefined ? undefined : [config.input].flat(),
+    outDir: config.outDir,
+    rulesFile: config.rules,
+    overridesFile: config.overrides,
+    profilesFile: config.profiles,
+    budgetsFile: config.budgets,
+    fxRatesFile: config.fxRates,
+    merchantsFile: config.merchants,
+    currency: config.currency,
+    profile: config.profile,
+    ledgerFile: config.ledger,
+    transferWindowDays: config.transferWindowDays,
+    refundWindowDays: config.refundWindowDays,
+    publishWeb: config.publishWeb
+  });
+}
+
+// Keeps only the config keys a command has options for.
+function applyConfigDefaults<T extends object>(defaults: T, config: ConfigDefaults): T {
+  return {
+    ...defaults,
+    ...Object.fromEntries(Object.entries(config).filter(([key]) => key in defaults))
+  };
+}
+
+// Precedence is built-in defaults, then the config file, then flags.
+export function resolveCommandOptions<T extends object>(
+  command: CliCommand,
+  argv: string[],
+  defaults: T
+): { options: T; json: boolean; projectRoot: string } {
+  const { values, positionals } = parseCommandArgs(command, argv);
+  if (positionals.length > 0) {
+    throw new UsageError(
+      `Unexpected argument for ${command.name}: ${positionals[0]}. Run \`${CLI_NAME} ${command.name} --help\` for the options.`
+    );
+  }
+  const { config, json, ...flags } = values;
+  const projectRoot = findProjectRoot(process.cwd());
+  const configured = applyConfigDefaults(defaults, loadConfigDefaults(projectRoot, typeof config === "string" ? config : null));
+  return { options: { ...configured, ...flags }, json: json === true, projectRoot };
+}
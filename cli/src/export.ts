@@ -0,0 +1,85 @@
+import fs from "node:fs";
+import path from "node:path";
+import { transactionsToCsv } from "@personal-spend/core";
+import { UsageError, type CliCommand } from "./args";
+import { resolveCommandOptions } from "./config";
+import { resolveFromRoot } from "./files";
+import { defaultCliOptions, pipelineOptions, runIngest, type CliOptions } from "./ingest";
+
+type ExportFormat = "csv" | "json";
+
+type ExportCliOptions = CliOptions & {
+  format: ExportFormat;
+  // Null writes to stdout.
+  outFile: string | null;
+  from: string | null;
+  to: string | null;
+};
+
+function parseFormat(value: string, flag: string): ExportFormat {
+  if (value !== "csv" && value !== "json") {
+    throw new UsageError(`${flag} expects csv or json, got: ${value}`);
+  }
+  return value;
+}
+
+function parseIsoDate(value: string, flag: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new UsageError(`${flag} expects a YYYY-MM-DD date, got: ${value}`);
+  }
+  return value;
+}
+
+function exportTransactions(argv: string[]): number {
+  const { options, json, projectRoot } = resolveCommandOptions<ExportCliOptions>(exportCommand, argv, {
+    ...defaultCliOptions(),
+    rebuild: true,
+    writeOutput: false,
+    format: "csv",
+    outFile: null,
+    from: null,
+    to: null
+  });
+  const format = json ? "json" : options.format;
+
+  const transactions = runIngest(options, projectRoot).transactions.filter(
+    (transaction) => (options.from === null || transaction.date >= options.from) && (options.to === null || transaction.date <= options.to)
+  );
+  const content = format === "json" ? `${JSON.stringify(transactions, null, 2)}\n` : transactionsToCsv(transactions);
+
+  if (options.outFile === null) {
+    process.stdout.write(content);
+    return 0;
+  }
+  const outPath = resolveFromRoot(projectRoot, options.outFile);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, content, "utf8");
+  // On stderr, so stdout only ever carries exported data.
+  console.error(`Exported ${transactions.length} transactions to ${outPath}`);
+  return 0;
+}
+
+export const exportCommand: CliCommand = {
+  name: "export",
+  usage: "export [options]",
+  summary: "Write the categorized ledger as CSV or JSON, to stdout or a file.",
+  options: [
+    { flag: "--format", key: "format", value: "<csv|json>", parse: parseFormat, description: "Output format (default: csv)" },
+    { flag: "--out", key: "outFile", value: "<path>", description: "Write to a file instead of stdout" },
+    { flag: "--from", key: "from", value: "<YYYY-MM-DD>", parse: parseIsoDate, description: "Only transactions on or after this date" },
+    { flag: "--to", key: "to", value: "<YYYY-MM-DD>", parse: parseIsoDate, description: "Only transactions on or before this date" },
+    ...pipelineOptions(
+      "rules",
+      "overrides",
+      "fxRates",
+      "merchants",
+      "currency",
+      "ledger",
+      "transferWindowDays",
+      "refundWindowDays",
+      "config"
+    ),
+    { flag: "--json", key: "json", description: "Same as --format json" }
+  ],
+  run: exportTransactions
+};
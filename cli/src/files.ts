@@ -0,0 +1,248 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  DEFAULT_CURRENCY,
+  parseCsvRows,
+  parseFxRatesCsv,
+  type BankProfile,
+  type BankRow,
+  type BaseTransaction,
+  type CategorizedSnapshot,
+  type CategoryRulesFile,
+  type FxRatesFile,
+  type OverridesFile,
+  type RowRejection
+} from "@personal-spend/core";
+import yaml from "js-yaml";
+import { parseDocument, type Document } from "yaml";
+
+export type LedgerEntry = BaseTransaction & {
+  source: string;
+  batchId: string;
+  importedAt: string;
+};
+
+export function findProjectRoot(startDir: string): string {
+  let current = path.resolve(startDir);
+
+  while (true) {
+    const packageJsonPath = path.join(current, "package.json");
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const packageJsonRaw = fs.readFileSync(packageJsonPath, "utf8");
+        const packageJson = JSON.parse(packageJsonRaw) as { workspaces?: unknown };
+        if (Array.isArray(packageJson.workspaces)) {
+          return current;
+        }
+      } catch {
+        // Keep walking upward.
+      }
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return startDir;
+    }
+    current = parent;
+  }
+}
+
+export function resolveFromRoot(rootDir: string, value: string): string {
+  if (path.isAbsolute(value)) {
+    return value;
+  }
+  return path.resolve(rootDir, value);
+}
+
+function hasGlobPattern(value: string): boolean {
+  return /[*?]/.test(value);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const followedBySeparator = pattern[i + 2] === "/";
+      source += followedBySeparator ? "(?:.*/)?" : ".*";
+      i += followedBySeparator ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+function expandGlob(pattern: string): string[] {
+  const segments = pattern.split("/");
+  const firstWildcard = segments.findIndex((segment) => hasGlobPattern(segment));
+  const baseDir = segments.slice(0, firstWildcard).join("/") || "/";
+  const maxDepth = pattern.includes("**") ? Number.POSITIVE_INFINITY : segments.length - firstWildcard;
+  const matcher = globToRegExp(pattern);
+  const matches: string[] = [];
+
+  const walk = (dir: string, depth: number): void => {
+    if (depth > maxDepth || !fs.existsSync(dir)) {
+      return;
+    }
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") {
+        continue;
+      }
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(entryPath, depth + 1);
+      } else if (matcher.test(entryPath)) {
+        matches.push(entryPath);
+      }
+    }
+  };
+
+  walk(baseDir, 1);
+  return matches;
+}
+
+export function resolveInputFiles(rootDir: string, inputs: string[]): string[] {
+  const files = new Set<string>();
+
+  for (const input of inputs) {
+    const resolved = resolveFromRoot(rootDir, input);
+
+    if (hasGlobPattern(input)) {
+      const matches = expandGlob(resolved.split(path.sep).join("/")).map((match) => path.resolve(match));
+      if (matches.length === 0) {
+        throw new Error(`Input pattern matched no files: ${input}`);
+      }
+      matches.forEach((match) => files.add(match));
+      continue;
+    }
+
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Input file does not exist: ${resolved}`);
+    }
+
+    if (fs.statSync(resolved).isDirectory()) {
+      const csvFiles = fs
+        .readdirSync(resolved)
+        .filter((name) => name.toLowerCase().endsWith(".csv"))
+        .map((name) => path.join(resolved, name));
+      if (csvFiles.length === 0) {
+        throw new Error(`Input directory has no CSV files: ${resolved}`);
+      }
+      csvFiles.forEach((file) => files.add(file));
+      continue;
+    }
+
+    files.add(resolved);
+  }
+
+  // Sorted so the merge order, and therefore which copy of a duplicate survives, never depends on flag order.
+  return [...files].sort((a, b) => a.localeCompare(b));
+}
+
+export function readCsvRows(
+  inputPath: string,
+  profiles: BankProfile[],
+  forcedProfile: string | null
+): { profile: BankProfile; rows: BankRow[]; rejections: RowRejection[] } {
+  return parseCsvRows(fs.readFileSync(inputPath, "utf8"), profiles, forcedProfile);
+}
+
+export function loadYamlFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  const content = fs.readFileSync(filePath, "utf8");
+  // The core schema leaves `2026-01-01` as a string; the default one turns it into a Date, even as a map key.
+  const parsed = yaml.load(content, { schema: yaml.CORE_SCHEMA });
+  if (!parsed || typeof parsed !== "object") {
+    return fallback;
+  }
+  return parsed as T;
+}
+
+// Edits go through a YAML document rather than a dump so hand-written comments and ordering survive.
+export function updateYamlFile(filePath: string, edit: (document: Document) => void): void {
+  const document = parseDocument(fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "");
+  if (document.errors.length > 0) {
+    throw new Error(`Cannot edit ${filePath}: ${document.errors[0].message}`);
+  }
+  edit(document);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, document.toString(), "utf8");
+}
+
+export function loadFxRatesFile(fxRatesPath: string): FxRatesFile {
+  if (fxRatesPath.toLowerCase().endsWith(".csv")) {
+    return fs.existsSync(fxRatesPath) ? parseFxRatesCsv(fs.readFileSync(fxRatesPath, "utf8")) : { rates: {} };
+  }
+  return loadYamlFile<FxRatesFile>(fxRatesPath, { rates: {} });
+}
+
+export function loadCategoryRules(rulesPath: string): CategoryRulesFile {
+  return loadYamlFile<CategoryRulesFile>(rulesPath, { rules: {}, groups: {}, group_rules: {} });
+}
+
+export function loadOverrides(overridesPath: string): OverridesFile {
+  return loadYamlFile<OverridesFile>(overridesPath, {
+    overrides: {},
+    narrative_contains: {},
+    group_overrides: {},
+    group_narrative_contains: {}
+  });
+}
+
+export function readLedger(ledgerPath: string): LedgerEntry[] {
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(ledgerPath, "utf8")
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNumber }) => {
+      try {
+        return JSON.parse(line) as LedgerEntry;
+      } catch {
+        throw new Error(`Invalid ledger entry at ${ledgerPath}:${lineNumber}`);
+      }
+    });
+}
+
+export function stripLedgerFields(entry: LedgerEntry): BaseTransaction {
+  const { source: _source, batchId: _batchId, importedAt: _importedAt, ...transaction } = entry;
+  // Entries imported before currencies were recorded have none.
+  return { ...transaction, currency: transaction.currency ?? DEFAULT_CURRENCY };
+}
+
+export function appendLedger(ledgerPath: string, entries: LedgerEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+  fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+  fs.appendFileSync(ledgerPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""), "utf8");
+}
+
+// Outputs are re-derived on every run, so an unreadable previous file only means there is nothing to compare against.
+export function readPreviousTransactions(filePath: string): CategorizedSnapshot[] | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    return Array.isArray(parsed) ? (parsed as CategorizedSnapshot[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+}
@@ -1,474 +1,663 @@
 import fs from "node:fs";
 import path from "node:path";
-import Papa from "papaparse";
-import yaml from "js-yaml";
-import { z } from "zod";
-
-type Direction = "debit" | "credit" | "neutral";
-
-type SankeyNode = { name: string };
-type SankeyLink = { source: number; target: number; value: number };
-
-type NormalizedTransaction = {
-  id: string;
-  date: string;
-  accountId: string;
-  narrative: string;
-  narrativeNormalized: string;
-  merchant: string;
-  debitAmount: number;
-  creditAmount: number;
-  amount: number;
-  direction: Direction;
-  balance: number | null;
-  sourceCategory: string;
-  category: string;
-  categoryReason: string;
-};
-
-type CliOptions = {
-  input: string;
+import {
+  buildCategoryChangeReport,
+  buildCategoryMatcher,
+  buildMerchantResolver,
+  buildSankeyData,
+  categorizeTransactions,
+  convertCurrencies,
+  dedupeTransactions,
+  DEFAULT_CURRENCY,
+  DEFAULT_LINK_WINDOWS,
+  detectRecurring,
+  linkTransactions,
+  loadBankProfiles,
+  loadBudgets,
+  loadFxRates,
+  normalizeTransactions,
+  reconcileBalances,
+  resolveMerchants,
+  type BankProfile,
+  type BudgetStatus,
+  type CategoryMatcher,
+  type BudgetsFile,
+  type CategoryChangeReport,
+  type CategoryShare,
+  type MerchantsFile,
+  type NormalizedTransaction,
+  type ProfilesFile,
+  type ReconciliationBreak,
+  type ReconciliationReport,
+  type RecurringItem,
+  type RecurringReport,
+  type RowRejection,
+  type SankeyData
+} from "@personal-spend/core";
+import { UsageError, type CliCommand, type OptionSpec } from "./args";
+import { DEFAULT_CONFIG_FILE, resolveCommandOptions } from "./config";
+import {
+  appendLedger,
+  loadCategoryRules,
+  loadFxRatesFile,
+  loadOverrides,
+  loadYamlFile,
+  readCsvRows,
+  readLedger,
+  readPreviousTransactions,
+  resolveFromRoot,
+  resolveInputFiles,
+  stripLedgerFields,
+  writeJsonFile,
+  type LedgerEntry
+} from "./files";
+import { watchIngest } from "./watch";
+
+export type CliOptions = {
+  inputs: string[];
   outDir: string;
   rulesFile: string;
   overridesFile: string;
+  profilesFile: string;
+  budgetsFile: string;
+  fxRatesFile: string;
+  merchantsFile: string;
+  currency: string;
+  profile: string | null;
+  ledgerFile: string;
+  rebuild: boolean;
+  transferWindowDays: number;
+  refundWindowDays: number;
   publishWeb: boolean;
+  strict: boolean;
+  // Off for commands that only read the ledger, such as `report` and `export`, and for `--dry-run`.
+  writeOutput: boolean;
+  watch: boolean;
 };
 
-type CategoryRulesFile = {
-  rules?: Record<string, string[]>;
+export type RejectedRow = RowRejection & {
+  source: string;
 };
 
-type OverridesFile = {
-  overrides?: Record<string, string>;
-  narrative_contains?: Record<string, string>;
+export type IngestResult = {
+  outDir: string;
+  ledgerPath: string;
+  batchId: string;
+  imports: Array<{ inputPath: string; profile: BankProfile; rowCount: number; rejectedCount: number }>;
+  duplicateCount: number;
+  newEntries: LedgerEntry[];
+  transactions: NormalizedTransaction[];
+  sankey: SankeyData;
+  uncategorized: NormalizedTransaction[];
+  recurring: RecurringReport;
+  reconciliation: ReconciliationReport;
+  rejected: RejectedRow[];
+  categoryChanges: CategoryChangeReport;
 };
 
-const bankRowSchema = z.object({
-  "Bank Account": z.string(),
-  Date: z.string(),
-  Narrative: z.string(),
-  "Debit Amount": z.string().optional(),
-  "Credit Amount": z.string().optional(),
-  Balance: z.string().optional(),
-  Categories: z.string().optional(),
-  Serial: z.string().optional()
-});
-
-const EXCLUDED_SPEND_CATEGORIES = new Set(["Income", "Transfers"]);
-
-function findProjectRoot(startDir: string): string {
-  let current = path.resolve(startDir);
-
-  while (true) {
-    const packageJsonPath = path.join(current, "package.json");
-    if (fs.existsSync(packageJsonPath)) {
-      try {
-        const packageJsonRaw = fs.readFileSync(packageJsonPath, "utf8");
-        const packageJson = JSON.parse(packageJsonRaw) as { workspaces?: unknown };
-        if (Array.isArray(packageJson.workspaces)) {
-          return current;
-        }
-      } catch {
-        // Keep walking upward.
-      }
-    }
-
-    const parent = path.dirname(current);
-    if (parent === current) {
-      return startDir;
-    }
-    current = parent;
-  }
-}
-
-function resolveFromRoot(rootDir: string, value: string): string {
-  if (path.isAbsolute(value)) {
-    return value;
-  }
-  return path.resolve(rootDir, value);
-}
-
-function parseArgs(argv: string[]): CliOptions {
-  const options: CliOptions = {
-    input: "Data_export_23022026.csv",
+export function defaultCliOptions(): CliOptions {
+  return {
+    inputs: [],
     outDir: path.join("data", "processed"),
     rulesFile: path.join("rules", "categories.yml"),
     overridesFile: path.join("rules", "overrides.yml"),
-    publishWeb: true
+    profilesFile: path.join("rules", "profiles.yml"),
+    budgetsFile: path.join("rules", "budgets.yml"),
+    fxRatesFile: path.join("rules", "fx-rates.yml"),
+    merchantsFile: path.join("rules", "merchants.yml"),
+    currency: DEFAULT_CURRENCY,
+    profile: null,
+    ledgerFile: path.join("data", "processed", "ledger.jsonl"),
+    rebuild: false,
+    transferWindowDays: DEFAULT_LINK_WINDOWS.transferWindowDays,
+    refundWindowDays: DEFAULT_LINK_WINDOWS.refundWindowDays,
+    publishWeb: true,
+    strict: false,
+    writeOutput: true,
+    watch: false
   };
+}
 
-  for (let i = 0; i < argv.length; i += 1) {
-    const arg = argv[i];
-    if (arg === "--input" && argv[i + 1]) {
-      options.input = argv[i + 1];
-      i += 1;
-      continue;
-    }
-    if (arg === "--out-dir" && argv[i + 1]) {
-      options.outDir = argv[i + 1];
-      i += 1;
-      continue;
-    }
-    if (arg === "--rules" && argv[i + 1]) {
-      options.rulesFile = argv[i + 1];
-      i += 1;
-      continue;
-    }
-    if (arg === "--overrides" && argv[i + 1]) {
-      options.overridesFile = argv[i + 1];
-      i += 1;
-      continue;
-    }
-    if (arg === "--no-publish-web") {
-      options.publishWeb = false;
-      continue;
-    }
+// Shared by every command that runs the pipeline; each picks the ones it accepts.
+export const PIPELINE_OPTIONS = {
+  config: {
+    flag: "--config",
+    key: "config",
+    value: "<path>",
+    description: `Config file with option defaults (default: ${DEFAULT_CONFIG_FILE})`
+  },
+  json: { flag: "--json", key: "json", description: "Print the result as JSON instead of text" },
+  input: {
+    flag: "--input",
+    key: "inputs",
+    value: "<path...>",
+    variadic: true,
+    description: "CSV files, directories or globs to import"
+  },
+  outDir: { flag: "--out-dir", key: "outDir", value: "<dir>", description: "Output directory (default: data/processed)" },
+  rules: { flag: "--rules", key: "rulesFile", value: "<path>", description: "Category rules (default: rules/categories.yml)" },
+  overrides: {
+    flag: "--overrides",
+    key: "overridesFile",
+    value: "<path>",
+    description: "Overrides (default: rules/overrides.yml)"
+  },
+  profiles: {
+    flag: "--profiles",
+    key: "profilesFile",
+    value: "<path>",
+    description: "Bank CSV profiles (default: rules/profiles.yml)"
+  },
+  budgets: { flag: "--budgets", key: "budgetsFile", value: "<path>", description: "Budgets (default: rules/budgets.yml)" },
+  fxRates: {
+    flag: "--fx-rates",
+    key: "fxRatesFile",
+    value: "<path>",
+    description: "FX rates, YAML or CSV (default: rules/fx-rates.yml)"
+  },
+  merchants: {
+    flag: "--merchants",
+    key: "merchantsFile",
+    value: "<path>",
+    description: "Merchant aliases (default: rules/merchants.yml)"
+  },
+  currency: {
+    flag: "--currency",
+    key: "currency",
+    value: "<code>",
+    parse: parseCurrency,
+    description: `Reporting currency (default: ${DEFAULT_CURRENCY})`
+  },
+  profile: { flag: "--profile", key: "profile", value: "<name>", description: "Force a bank profile instead of auto-detecting" },
+  ledger: {
+    flag: "--ledger",
+    key: "ledgerFile",
+    value: "<path>",
+    description: "Ledger file (default: data/processed/ledger.jsonl)"
+  },
+  rebuild: { flag: "--rebuild", key: "rebuild", description: "Re-derive output from the ledger without reading any CSV" },
+  transferWindowDays: {
+    flag: "--transfer-window-days",
+    key: "transferWindowDays",
+    value: "<n>",
+    parse: parseWindowDays,
+    description: `Days apart two legs of a transfer may be (default: ${DEFAULT_LINK_WINDOWS.transferWindowDays})`
+  },
+  refundWindowDays: {
+    flag: "--refund-window-days",
+    key: "refundWindowDays",
+    value: "<n>",
+    parse: parseWindowDays,
+    description: `Days after a purchase a refund still pairs with it (default: ${DEFAULT_LINK_WINDOWS.refundWindowDays})`
+  },
+  noPublishWeb: {
+    flag: "--no-publish-web",
+    key: "publishWeb",
+    switchValue: false,
+    description: "Skip writing web/public/*.json"
+  },
+  dryRun: {
+    flag: "--dry-run",
+    key: "writeOutput",
+    switchValue: false,
+    description: "Show what would change without touching the ledger or any output file"
+  },
+  strict: {
+    flag: "--strict",
+    key: "strict",
+    description: "Exit non-zero when rows are rejected or balances don't reconcile"
+  },
+  watch: {
+    flag: "--watch",
+    key: "watch",
+    description: "Keep running and re-ingest when data/raw or a rule file changes"
   }
+} satisfies Record<string, OptionSpec>;
 
-  return options;
+export function pipelineOptions(...names: Array<keyof typeof PIPELINE_OPTIONS>): OptionSpec[] {
+  return names.map((name) => PIPELINE_OPTIONS[name]);
 }
 
-function parseMoney(value: string | undefined): number {
-  if (!value) {
-    return 0;
-  }
-  const cleaned = value.replace(/[$,\s]/g, "").trim();
-  if (!cleaned) {
-    return 0;
+function parseCurrency(value: string): string {
+  if (!/^[A-Za-z]{3}$/.test(value)) {
+    throw new UsageError(`--currency expects a three-letter currency code, got: ${value}`);
   }
-  const numeric = Number.parseFloat(cleaned);
-  return Number.isFinite(numeric) ? numeric : 0;
+  return value.toUpperCase();
 }
 
-function parseDate(dateValue: string): string {
-  const trimmed = dateValue.trim();
-  const parts = trimmed.split("/");
-  if (parts.length !== 3) {
-    throw new Error(`Unsupported date format: ${dateValue}`);
+function parseWindowDays(value: string, flag: string): number {
+  const days = Number.parseInt(value, 10);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(days)) {
+    throw new UsageError(`${flag} expects a whole number of days, got: ${value}`);
   }
-  const [dayStr, monthStr, yearStr] = parts;
-  const day = Number.parseInt(dayStr, 10);
-  const month = Number.parseInt(monthStr, 10);
-  const year = Number.parseInt(yearStr, 10);
-  if (!Number.isInteger(day) || !Number.isInteger(month) || !Number.isInteger(year)) {
-    throw new Error(`Invalid date parts: ${dateValue}`);
-  }
-  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  return days;
 }
 
-function normalizeText(value: string): string {
-  return value
-    .replace(/\s+/g, " ")
-    .trim()
-    .toLowerCase();
+// Everything between the raw ledger and its categories, so `rules lint` and `rules suggest` see amounts, merchants and
+// categories exactly as `ingest` does. The files are read up front, so a broken one fails before anything is written.
+export function ledgerCategorizer(
+  options: Pick<CliOptions, "fxRatesFile" | "merchantsFile" | "currency">,
+  projectRoot: string,
+  matcher: CategoryMatcher
+): (ledger: LedgerEntry[]) => NormalizedTransaction[] {
+  const fx = loadFxRates(loadFxRatesFile(resolveFromRoot(projectRoot, options.fxRatesFile)), options.currency);
+  const merchantResolver = buildMerchantResolver(
+    loadYamlFile<MerchantsFile>(resolveFromRoot(projectRoot, options.merchantsFile), {})
+  );
+  // The ledger keeps raw history only; conversions and categories are always re-derived from the current files.
+  return (ledger) =>
+    categorizeTransactions(resolveMerchants(convertCurrencies(ledger.map(stripLedgerFields), fx), merchantResolver), matcher);
 }
 
-function inferMerchant(narrative: string): string {
-  const cleaned = narrative
-    .replace(/\s+/g, " ")
-    .replace(/^DEPOSIT[-\s]OSKO PAYMENT\s+\d+\s+/i, "")
-    .replace(/^WITHDRAWAL[-\s]OSKO PAYMENT\s+\d+\s+/i, "")
-    .replace(/^WITHDRAWAL MOBILE\s+\d+\s+TFR\s+/i, "")
-    .replace(/^PAYMENT BY AUTHORITY TO\s+/i, "")
-    .replace(/^DEPOSIT\s+/i, "")
-    .trim();
-
-  return cleaned || narrative.trim();
+export function linkWindows(options: Pick<CliOptions, "transferWindowDays" | "refundWindowDays">) {
+  return { transferWindowDays: options.transferWindowDays, refundWindowDays: options.refundWindowDays };
 }
 
-function hashString(input: string): string {
-  let hash = 0;
-  for (let i = 0; i < input.length; i += 1) {
-    hash = (hash * 31 + input.charCodeAt(i)) >>> 0;
-  }
-  return `tx_${hash.toString(16).padStart(8, "0")}`;
-}
+export function runIngest(options: CliOptions, projectRoot: string): IngestResult {
+  const outDir = resolveFromRoot(projectRoot, options.outDir);
+  const rulesPath = resolveFromRoot(projectRoot, options.rulesFile);
+  const overridesPath = resolveFromRoot(projectRoot, options.overridesFile);
+  const profilesPath = resolveFromRoot(projectRoot, options.profilesFile);
+  const budgetsPath = resolveFromRoot(projectRoot, options.budgetsFile);
+  const ledgerPath = resolveFromRoot(projectRoot, options.ledgerFile);
+
+  const rulesConfig = loadCategoryRules(rulesPath);
+  const overridesConfig = loadOverrides(overridesPath);
+  const matcher = buildCategoryMatcher(rulesConfig, overridesConfig);
+  const budgets = loadBudgets(loadYamlFile<BudgetsFile>(budgetsPath, {}));
+  const categorizeLedger = ledgerCategorizer(options, projectRoot, matcher);
+
+  const ledger = readLedger(ledgerPath);
+  const importedAt = new Date().toISOString();
+  const batchId = `batch_${importedAt.replace(/[-:.]/g, "")}`;
+  const imports: IngestResult["imports"] = [];
+  let duplicateCount = 0;
+  let newEntries: LedgerEntry[] = [];
+  const rejected: RejectedRow[] = [];
+
+  if (options.rebuild) {
+    if (!fs.existsSync(ledgerPath)) {
+      throw new Error(`Ledger does not exist: ${ledgerPath}. Run an ingest first.`);
+    }
+  } else {
+    if (options.inputs.length === 0) {
+      throw new UsageError(`No input files. Pass --input, or set \`input\` in ${DEFAULT_CONFIG_FILE}.`);
+    }
+    const profiles = loadBankProfiles(loadYamlFile<ProfilesFile>(profilesPath, { profiles: {} }));
+    const inputPaths = resolveInputFiles(projectRoot, options.inputs);
+    const importedEntries: LedgerEntry[] = [];
+
+    for (const inputPath of inputPaths) {
+      const { profile, rows, rejections } = readCsvRows(inputPath, profiles, options.profile);
+      const source = path.relative(projectRoot, inputPath).split(path.sep).join("/");
+      rejected.push(...rejections.map((rejection) => ({ source, ...rejection })));
+      imports.push({ inputPath, profile, rowCount: rows.length, rejectedCount: new Set(rejections.map((entry) => entry.line)).size });
+      importedEntries.push(
+        ...normalizeTransactions(rows, profile).map((transaction) => ({ ...transaction, source, batchId, importedAt }))
+      );
+    }
 
-function loadYamlFile<T>(filePath: string, fallback: T): T {
-  if (!fs.existsSync(filePath)) {
-    return fallback;
+    const deduped = dedupeTransactions(importedEntries);
+    const knownIds = new Set(ledger.map((entry) => entry.id));
+    duplicateCount = deduped.duplicateCount;
+    newEntries = deduped.transactions.filter((entry) => !knownIds.has(entry.id));
+    if (options.writeOutput) {
+      appendLedger(ledgerPath, newEntries);
+    }
+    ledger.push(...newEntries);
   }
-  const content = fs.readFileSync(filePath, "utf8");
-  const parsed = yaml.load(content);
-  if (!parsed || typeof parsed !== "object") {
-    return fallback;
+
+  const transactions = linkTransactions(categorizeLedger(ledger), matcher, linkWindows(options));
+  const sankey = buildSankeyData(transactions, budgets, options.currency);
+  const uncategorized = transactions.filter(
+    (transaction) => transaction.direction === "debit" && transaction.category === "Uncategorized"
+  );
+  const recurring = detectRecurring(transactions);
+  // Checked on the ledger rather than `transactions`: balances are in each account's own currency.
+  const reconciliation = reconcileBalances(ledger.map((entry) => ({ ...stripLedgerFields(entry), source: entry.source })));
+  // Compared against the last written output, so after a rule edit this is exactly what the edit moved.
+  const categoryChanges = buildCategoryChangeReport(readPreviousTransactions(path.join(outDir, "transactions.json")), transactions);
+
+  if (options.writeOutput) {
+    writeJsonFile(path.join(outDir, "transactions.json"), transactions);
+    writeJsonFile(path.join(outDir, "sankey.json"), sankey);
+    writeJsonFile(path.join(outDir, "uncategorized.json"), uncategorized);
+    writeJsonFile(path.join(outDir, "recurring.json"), recurring);
+    writeJsonFile(path.join(outDir, "reconciliation.json"), reconciliation);
+    writeJsonFile(path.join(outDir, "category-changes.json"), categoryChanges);
+    // Describes the latest import, so a rebuild leaves the previous report in place.
+    if (!options.rebuild) {
+      writeJsonFile(path.join(outDir, "rejected.json"), rejected);
+    }
   }
-  return parsed as T;
-}
 
-function buildCategoryMatcher(
-  rulesFile: CategoryRulesFile,
-  overridesFile: OverridesFile
-): {
-  categoryFor: (transaction: Omit<NormalizedTransaction, "category" | "categoryReason">) => {
-    category: string;
-    reason: string;
-  };
-} {
-  const overridesById = Object.entries(overridesFile.overrides ?? {}).map(([id, category]) => [id.trim(), category.trim()]);
-  const narrativeOverrides = Object.entries(overridesFile.narrative_contains ?? {}).map(([needle, category]) => [
-    normalizeText(needle),
-    category.trim()
-  ]);
-  const ruleEntries = Object.entries(rulesFile.rules ?? {}).map(([category, needles]) => ({
-    category,
-    needles: needles.map((needle) => normalizeText(needle))
-  }));
+  if (options.writeOutput && options.publishWeb) {
+    const webPublicDir = path.join(projectRoot, "web", "public");
+    if (fs.existsSync(webPublicDir)) {
+      writeJsonFile(path.join(webPublicDir, "sankey.json"), sankey);
+      writeJsonFile(path.join(webPublicDir, "uncategorized.json"), uncategorized);
+      writeJsonFile(path.join(webPublicDir, "transactions.json"), transactions);
+      writeJsonFile(path.join(webPublicDir, "recurring.json"), recurring);
+    }
+  }
 
   return {
-    categoryFor(transaction) {
-      const idOverride = overridesById.find(([id]) => id === transaction.id);
-      if (idOverride) {
-        return { category: idOverride[1], reason: "override:id" };
-      }
-
-      const narrativeOverride = narrativeOverrides.find(([needle]) => transaction.narrativeNormalized.includes(needle));
-      if (narrativeOverride) {
-        return { category: narrativeOverride[1], reason: `override:narrative:${narrativeOverride[0]}` };
-      }
-
-      for (const entry of ruleEntries) {
-        const matchedNeedle = entry.needles.find((needle) => transaction.narrativeNormalized.includes(needle));
-        if (matchedNeedle) {
-          return { category: entry.category, reason: `rule:${matchedNeedle}` };
-        }
-      }
-
-      if (transaction.direction === "credit") {
-        return { category: "Income", reason: "fallback:credit" };
-      }
-
-      if (transaction.sourceCategory.toUpperCase() === "INT") {
-        return { category: "Interest", reason: "fallback:sourceCategory=INT" };
-      }
-
-      return { category: "Uncategorized", reason: "fallback:uncategorized" };
-    }
+    outDir,
+    ledgerPath,
+    batchId,
+    imports,
+    duplicateCount,
+    newEntries,
+    transactions,
+    sankey,
+    uncategorized,
+    recurring,
+    reconciliation,
+    rejected,
+    categoryChanges
   };
 }
 
-function readCsvRows(inputPath: string): Array<z.infer<typeof bankRowSchema>> {
-  const csvRaw = fs.readFileSync(inputPath, "utf8");
-  const parsed = Papa.parse<Record<string, string>>(csvRaw, {
-    header: true,
-    skipEmptyLines: true
-  });
-
-  if (parsed.errors.length > 0) {
-    const firstError = parsed.errors[0];
-    throw new Error(`CSV parse error at row ${firstError.row ?? "unknown"}: ${firstError.message}`);
-  }
+export type IngestSummary = {
+  mode: "import" | "rebuild" | "report";
+  ledger: string;
+  inputs: Array<{ file: string; profile: string; autoDetected: boolean; rows: number; rejected: number }>;
+  inputRows: number;
+  rejectedRows: number;
+  duplicateCount: number;
+  newEntries: number;
+  batchId: string | null;
+  transactionCount: number;
+  transferPairs: number;
+  refundPairs: number;
+  spendTransactionCount: number;
+  totalSpend: number;
+  currency: string;
+  convertedCounts: Record<string, number>;
+  uncategorizedCount: number;
+  categoryCounts: Record<string, number>;
+  groupCounts: Record<string, number>;
+  tagCounts: Record<string, number>;
+  budgetCount: number;
+  overBudget: BudgetStatus[];
+  projectedOverBudget: BudgetStatus[];
+  recurring: RecurringReport["summary"] & { uncategorized: Array<Pick<RecurringItem, "merchant" | "cadence" | "amount">> };
+  reconciliation: ReconciliationReport["summary"] & { breaks: ReconciliationBreak[] };
+  rejected: RejectedRow[];
+  categoryChanges: CategoryChangeReport;
+  // Null when the command wrote nothing.
+  outDir: string | null;
+};
 
-  return parsed.data
-    .map((row) => bankRowSchema.parse(row))
-    .filter((row) => row.Date.trim().length > 0 && row.Narrative.trim().length > 0);
+function countBy(transactions: NormalizedTransaction[], keysOf: (transaction: NormalizedTransaction) => string[]) {
+  return transactions.reduce<Record<string, number>>((acc, transaction) => {
+    for (const key of keysOf(transaction)) {
+      acc[key] = (acc[key] ?? 0) + 1;
+    }
+    return acc;
+  }, {});
 }
 
-function normalizeTransactions(
-  rows: Array<z.infer<typeof bankRowSchema>>,
-  categoryFor: (transaction: Omit<NormalizedTransaction, "category" | "categoryReason">) => {
-    category: string;
-    reason: string;
-  }
-): NormalizedTransaction[] {
-  return rows.map((row, index) => {
-    const debitAmount = parseMoney(row["Debit Amount"]);
-    const creditAmount = parseMoney(row["Credit Amount"]);
-    const amount = debitAmount > 0 ? debitAmount : creditAmount > 0 ? -creditAmount : 0;
-    const direction: Direction = debitAmount > 0 ? "debit" : creditAmount > 0 ? "credit" : "neutral";
-    const narrative = row.Narrative.trim();
-    const narrativeNormalized = normalizeText(narrative);
-    const idSignature = [
-      row.Date.trim(),
-      row["Bank Account"].trim(),
-      narrativeNormalized,
-      debitAmount.toFixed(2),
-      creditAmount.toFixed(2),
-      row.Serial?.trim() || String(index)
-    ].join("|");
-    const id = hashString(idSignature);
-
-    const baseTransaction: Omit<NormalizedTransaction, "category" | "categoryReason"> = {
-      id,
-      date: parseDate(row.Date),
-      accountId: row["Bank Account"].trim(),
-      narrative,
-      narrativeNormalized,
-      merchant: inferMerchant(narrative),
-      debitAmount,
-      creditAmount,
-      amount,
-      direction,
-      balance: row.Balance ? parseMoney(row.Balance) : null,
-      sourceCategory: (row.Categories ?? "").trim()
-    };
-
-    const categorization = categoryFor(baseTransaction);
-
-    return {
-      ...baseTransaction,
-      category: categorization.category,
-      categoryReason: categorization.reason
-    };
-  });
-}
+export function summarizeIngest(options: CliOptions, projectRoot: string, result: IngestResult): IngestSummary {
+  const { transactions, sankey, recurring, reconciliation, imports } = result;
+  const linkCounts = countBy(transactions, (transaction) => (transaction.linkType ? [transaction.linkType] : []));
 
-function buildSankeyData(transactions: NormalizedTransaction[]): {
-  generatedAt: string;
-  currency: string;
-  nodes: SankeyNode[];
-  links: SankeyLink[];
-  summary: {
-    totalSpend: number;
-    transactionCount: number;
+  return {
+    mode: !options.rebuild ? "import" : options.writeOutput ? "rebuild" : "report",
+    ledger: path.relative(projectRoot, result.ledgerPath),
+    inputs: imports.map((entry) => ({
+      file: path.relative(projectRoot, entry.inputPath),
+      profile: entry.profile.name,
+      autoDetected: !options.profile,
+      rows: entry.rowCount,
+      rejected: entry.rejectedCount
+    })),
+    inputRows: imports.reduce((sum, entry) => sum + entry.rowCount, 0),
+    rejectedRows: imports.reduce((sum, entry) => sum + entry.rejectedCount, 0),
+    duplicateCount: result.duplicateCount,
+    newEntries: result.newEntries.length,
+    batchId: result.newEntries.length > 0 ? result.batchId : null,
+    transactionCount: transactions.length,
+    transferPairs: (linkCounts.transfer ?? 0) / 2,
+    refundPairs: (linkCounts.refund ?? 0) / 2,
+    spendTransactionCount: sankey.summary.transactionCount,
+    totalSpend: sankey.summary.totalSpend,
+    currency: sankey.currency,
+    convertedCounts: countBy(transactions, (transaction) => (transaction.currency !== sankey.currency ? [transaction.currency] : [])),
+    uncategorizedCount: result.uncategorized.length,
+    categoryCounts: countBy(transactions, (transaction) => [transaction.category]),
+    groupCounts: countBy(transactions, (transaction) => [transaction.group]),
+    tagCounts: countBy(transactions, (transaction) => transaction.tags),
+    budgetCount: sankey.budgets.length,
+    overBudget: sankey.budgets.filter((status) => status.overBudget),
+    projectedOverBudget: sankey.budgets.filter((status) => !status.overBudget && (status.projected ?? 0) > status.limit),
+    recurring: {
+      ...recurring.summary,
+      uncategorized: recurring.items
+        .filter((item) => item.uncategorized && !item.stopped)
+        .map((item) => ({ merchant: item.merchant, cadence: item.cadence, amount: item.amount }))
+    },
+    reconciliation: { ...reconciliation.summary, breaks: reconciliation.breaks },
+    rejected: result.rejected,
+    categoryChanges: result.categoryChanges,
+    outDir: options.writeOutput ? result.outDir : null
   };
-} {
-  const spendTransactions = transactions.filter(
-    (transaction) =>
-      transaction.direction === "debit" &&
-      transaction.amount > 0 &&
-      !EXCLUDED_SPEND_CATEGORIES.has(transaction.category)
-  );
+}
 
-  const categoryTotals = new Map<string, number>();
-  const merchantTotalsByCategory = new Map<string, Map<string, number>>();
+const MAX_PRINTED_BREAKS = 10;
+const MAX_PRINTED_REJECTIONS = 10;
+const MAX_PRINTED_CATEGORY_CHANGES = 20;
+// Reasons can quote a whole regex and splits list every share; cut them so the table stays on one line per transaction.
+const MAX_CELL_WIDTH = 40;
 
-  for (const transaction of spendTransactions) {
-    categoryTotals.set(transaction.category, (categoryTotals.get(transaction.category) ?? 0) + transaction.amount);
+function fitCell(value: string): string {
+  return value.length > MAX_CELL_WIDTH ? `${value.slice(0, MAX_CELL_WIDTH - 3)}...` : value;
+}
 
-    if (!merchantTotalsByCategory.has(transaction.category)) {
-      merchantTotalsByCategory.set(transaction.category, new Map<string, number>());
-    }
-    const merchantTotals = merchantTotalsByCategory.get(transaction.category);
-    if (!merchantTotals) {
-      continue;
-    }
-    merchantTotals.set(transaction.merchant, (merchantTotals.get(transaction.merchant) ?? 0) + transaction.amount);
-  }
+function categoryLabel(category: string, allocations: CategoryShare[] | null): string {
+  return allocations ? allocations.map((share) => `${share.category} ${share.amount.toFixed(2)}`).join(" + ") : category;
+}
 
-  const nodes: SankeyNode[] = [{ name: "Total Spend" }];
-  const nodeIndex = new Map<string, number>([["Total Spend", 0]]);
+function printCategoryChanges(report: CategoryChangeReport): void {
+  if (!report.hasBaseline) {
+    console.log("Category changes: no previous transactions.json to compare against");
+    return;
+  }
+  console.log(`Category changes: ${report.summary.changedCount} of ${report.summary.comparedCount} transactions`);
+  if (report.changes.length === 0) {
+    return;
+  }
 
-  const sortedCategories = [...categoryTotals.entries()].sort(([a], [b]) => a.localeCompare(b));
-  for (const [category] of sortedCategories) {
-    nodeIndex.set(category, nodes.length);
-    nodes.push({ name: category });
+  const rows = [
+    ["ID", "Merchant", "Amount", "Old category", "New category", "Old reason", "New reason"],
+    ...report.changes
+      .slice(0, MAX_PRINTED_CATEGORY_CHANGES)
+      .map((change) => [
+        change.id,
+        change.merchant,
+        change.amount.toFixed(2),
+        categoryLabel(change.previousCategory, change.previousAllocations),
+        categoryLabel(change.category, change.allocations),
+        change.previousReason,
+        change.categoryReason
+      ])
+  ].map((row) => row.map(fitCell));
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  for (const row of rows) {
+    // Amounts are right-aligned so the decimal points line up.
+    const cells = row.map((cell, column) => (column === 2 ? cell.padStart(widths[column]) : cell.padEnd(widths[column])));
+    console.log(`  ${cells.join("  ").trimEnd()}`);
+  }
+  if (report.changes.length > MAX_PRINTED_CATEGORY_CHANGES) {
+    console.log(`  ... and ${report.changes.length - MAX_PRINTED_CATEGORY_CHANGES} more`);
   }
 
-  for (const [category, merchants] of merchantTotalsByCategory.entries()) {
-    for (const merchant of merchants.keys()) {
-      if (!nodeIndex.has(merchant)) {
-        nodeIndex.set(merchant, nodes.length);
-        nodes.push({ name: merchant });
-      }
-    }
+  console.log("Net spend change by category:");
+  for (const entry of report.spendChanges) {
+    console.log(`  - ${entry.category}: ${entry.change > 0 ? "+" : ""}${entry.change.toFixed(2)}`);
   }
+}
 
-  const links: SankeyLink[] = [];
+// One short block per re-run, so a long watch session stays readable.
+function printWatchRun(options: CliOptions, result: IngestResult): void {
+  if (!options.rebuild) {
+    const rejected = result.imports.reduce((sum, entry) => sum + entry.rejectedCount, 0);
+    console.log(`New ledger entries: ${result.newEntries.length}${rejected > 0 ? `, ${rejected} rows rejected` : ""}`);
+  }
+  console.log(
+    `Ledger transactions: ${result.transactions.length}, uncategorized debits: ${result.uncategorized.length}, ` +
+      `total spend: ${result.sankey.currency} ${result.sankey.summary.totalSpend.toFixed(2)}`
+  );
+  printCategoryChanges(result.categoryChanges);
+}
 
-  for (const [category, total] of sortedCategories) {
-    const source = nodeIndex.get("Total Spend");
-    const target = nodeIndex.get(category);
-    if (source === undefined || target === undefined) {
-      continue;
+function printSummary(summary: IngestSummary): void {
+  if (summary.mode === "import") {
+    for (const entry of summary.inputs) {
+      const profileNote = entry.autoDetected ? ", auto-detected" : "";
+      const rejectedNote = entry.rejected > 0 ? `, ${entry.rejected} rejected` : "";
+      console.log(`Input file: ${entry.file} (${entry.profile}${profileNote}, ${entry.rows} rows${rejectedNote})`);
     }
-    links.push({ source, target, value: Number(total.toFixed(2)) });
-
-    const merchants = merchantTotalsByCategory.get(category);
-    if (!merchants) {
-      continue;
+    console.log(`Input rows: ${summary.inputRows}`);
+    console.log(`Rejected rows: ${summary.rejectedRows}`);
+    for (const entry of summary.rejected.slice(0, MAX_PRINTED_REJECTIONS)) {
+      const where = [`line ${entry.line}`, entry.column, entry.value !== null ? JSON.stringify(entry.value) : null]
+        .filter(Boolean)
+        .join(" ");
+      console.log(`  - ${entry.source} ${where}: ${entry.message}`);
     }
-
-    const sortedMerchants = [...merchants.entries()].sort(([a], [b]) => a.localeCompare(b));
-    for (const [merchant, merchantTotal] of sortedMerchants) {
-      const merchantIndex = nodeIndex.get(merchant);
-      if (merchantIndex === undefined) {
-        continue;
-      }
-      links.push({
-        source: target,
-        target: merchantIndex,
-        value: Number(merchantTotal.toFixed(2))
-      });
+    if (summary.rejected.length > MAX_PRINTED_REJECTIONS) {
+      console.log(`  ... and ${summary.rejected.length - MAX_PRINTED_REJECTIONS} more in rejected.json`);
     }
+    console.log(`Duplicate rows dropped: ${summary.duplicateCount}`);
+    console.log(`New ledger entries: ${summary.newEntries}${summary.batchId ? ` (${summary.batchId})` : ""}`);
+  } else {
+    console.log(`${summary.mode === "rebuild" ? "Rebuilt" : "Reported"} from ledger: ${summary.ledger}`);
   }
 
-  const totalSpend = [...categoryTotals.values()].reduce((sum, value) => sum + value, 0);
-
-  return {
-    generatedAt: new Date().toISOString(),
-    currency: "AUD",
-    nodes,
-    links,
-    summary: {
-      totalSpend: Number(totalSpend.toFixed(2)),
-      transactionCount: spendTransactions.length
+  console.log(`Ledger transactions: ${summary.transactionCount}`);
+  console.log(`Matched transfer pairs: ${summary.transferPairs}`);
+  console.log(`Matched refund pairs: ${summary.refundPairs}`);
+  console.log(`Sankey spend transactions: ${summary.spendTransactionCount}`);
+  console.log(`Total spend: ${summary.currency} ${summary.totalSpend.toFixed(2)}`);
+  if (Object.keys(summary.convertedCounts).length > 0) {
+    console.log(`Converted to ${summary.currency}:`, summary.convertedCounts);
+  }
+  console.log(`Uncategorized debit transactions: ${summary.uncategorizedCount}`);
+  console.log("Category counts:", summary.categoryCounts);
+  console.log("Group counts:", summary.groupCounts);
+  if (Object.keys(summary.tagCounts).length > 0) {
+    console.log("Tag counts:", summary.tagCounts);
+  }
+  if (summary.budgetCount > 0) {
+    console.log(`Budgets over limit: ${summary.overBudget.length} of ${summary.budgetCount}`);
+    for (const status of summary.overBudget) {
+      const percent = status.limit > 0 ? Math.round((status.actual / status.limit) * 100) : 0;
+      console.log(
+        `  - ${status.name} (${status.scope}, ${status.from}..${status.to}): ${status.actual.toFixed(2)} of ${status.limit.toFixed(2)} (${percent}%)`
+      );
+    }
+    for (const status of summary.projectedOverBudget) {
+      console.log(`  - ${status.name} is on course for ${status.projected?.toFixed(2)} against ${status.limit.toFixed(2)}`);
     }
-  };
-}
-
-function writeJsonFile(filePath: string, data: unknown): void {
-  fs.mkdirSync(path.dirname(filePath), { recursive: true });
-  fs.writeFileSync(filePath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
-}
-
-function main(): void {
-  const options = parseArgs(process.argv.slice(2));
-  const projectRoot = findProjectRoot(process.cwd());
-  const inputPath = resolveFromRoot(projectRoot, options.input);
-  const outDir = resolveFromRoot(projectRoot, options.outDir);
-  const rulesPath = resolveFromRoot(projectRoot, options.rulesFile);
-  const overridesPath = resolveFromRoot(projectRoot, options.overridesFile);
-
-  if (!fs.existsSync(inputPath)) {
-    throw new Error(`Input file does not exist: ${inputPath}`);
   }
-
-  const rulesConfig = loadYamlFile<CategoryRulesFile>(rulesPath, { rules: {} });
-  const overridesConfig = loadYamlFile<OverridesFile>(overridesPath, {
-    overrides: {},
-    narrative_contains: {}
-  });
-  const matcher = buildCategoryMatcher(rulesConfig, overridesConfig);
-
-  const rows = readCsvRows(inputPath);
-  const transactions = normalizeTransactions(rows, matcher.categoryFor);
-  const sankey = buildSankeyData(transactions);
-  const uncategorized = transactions.filter(
-    (transaction) => transaction.direction === "debit" && transaction.category === "Uncategorized"
+  const { recurring, reconciliation } = summary;
+  console.log(
+    `Recurring charges: ${recurring.activeCount} active (${summary.currency} ${recurring.activeAnnualCost.toFixed(2)} a year), ${recurring.stoppedCount} stopped`
   );
-
-  writeJsonFile(path.join(outDir, "transactions.json"), transactions);
-  writeJsonFile(path.join(outDir, "sankey.json"), sankey);
-  writeJsonFile(path.join(outDir, "uncategorized.json"), uncategorized);
-
-  if (options.publishWeb) {
-    const webPublicDir = path.join(projectRoot, "web", "public");
-    if (fs.existsSync(webPublicDir)) {
-      writeJsonFile(path.join(webPublicDir, "sankey.json"), sankey);
-      writeJsonFile(path.join(webPublicDir, "uncategorized.json"), uncategorized);
-      writeJsonFile(path.join(webPublicDir, "transactions.json"), transactions);
-    }
+  for (const item of recurring.uncategorized) {
+    console.log(`  - ${item.merchant} (${item.cadence}, ${item.amount.toFixed(2)}) is uncategorized`);
   }
+  console.log(
+    `Balance reconciliation: ${reconciliation.reconciledCount} of ${reconciliation.accountCount} accounts reconciled, ${reconciliation.breakCount} break(s)${reconciliation.noBalanceCount > 0 ? `, ${reconciliation.noBalanceCount} without balances` : ""}`
+  );
+  for (const entry of reconciliation.breaks.slice(0, MAX_PRINTED_BREAKS)) {
+    console.log(`  - ${entry.accountId} ${entry.kind}: ${entry.message}`);
+  }
+  if (reconciliation.breaks.length > MAX_PRINTED_BREAKS) {
+    console.log(`  ... and ${reconciliation.breaks.length - MAX_PRINTED_BREAKS} more in reconciliation.json`);
+  }
+  printCategoryChanges(summary.categoryChanges);
+  if (summary.outDir) {
+    console.log(`Wrote output to: ${summary.outDir}`);
+  } else if (summary.mode !== "report") {
+    console.log("Dry run: the ledger and output files were left unchanged");
+  }
+}
 
-  const categoryCounts = transactions.reduce<Record<string, number>>((acc, transaction) => {
-    acc[transaction.category] = (acc[transaction.category] ?? 0) + 1;
-    return acc;
-  }, {});
+function runPipelineCommand(command: CliCommand, argv: string[], overrides: Partial<CliOptions>): number | Promise<number> {
+  const { options: configured, json, projectRoot } = resolveCommandOptions(command, argv, defaultCliOptions());
+  const options = { ...configured, ...overrides };
+  if (options.watch && json) {
+    throw new UsageError("--watch prints a running log and can't be combined with --json.");
+  }
+  if (options.watch && !options.writeOutput) {
+    throw new UsageError("--watch writes on every change and can't be combined with --dry-run.");
+  }
+  // Watching with nothing to import starts from the ledger as it is.
+  const firstRun = options.watch && options.inputs.length === 0 ? { ...options, rebuild: true } : options;
+  const result = runIngest(firstRun, projectRoot);
+  const summary = summarizeIngest(firstRun, projectRoot, result);
+  if (json) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    printSummary(summary);
+  }
+  if (options.watch) {
+    return watchIngest(options, projectRoot, (next) => printWatchRun(next, runIngest(next, projectRoot)));
+  }
 
-  console.log(`Input rows: ${rows.length}`);
-  console.log(`Normalized transactions: ${transactions.length}`);
-  console.log(`Sankey spend transactions: ${sankey.summary.transactionCount}`);
-  console.log(`Total spend: ${sankey.currency} ${sankey.summary.totalSpend.toFixed(2)}`);
-  console.log(`Uncategorized debit transactions: ${uncategorized.length}`);
-  console.log("Category counts:", categoryCounts);
-  console.log(`Wrote output to: ${outDir}`);
+  // Output is still written, so the problems can be inspected in reconciliation.json and rejected.json.
+  return options.strict && (summary.reconciliation.breakCount > 0 || summary.rejected.length > 0) ? 1 : 0;
 }
 
-try {
-  main();
-} catch (error) {
-  const message = error instanceof Error ? error.message : String(error);
-  console.error("Ingestion failed:", message);
-  process.exit(1);
-}
+export const ingestCommand: CliCommand = {
+  name: "ingest",
+  usage: "ingest --input <path...> [options]",
+  summary: "Import bank CSVs into the ledger, then re-derive every output file from it.",
+  options: pipelineOptions(
+    "input",
+    "outDir",
+    "rules",
+    "overrides",
+    "profiles",
+    "budgets",
+    "fxRates",
+    "merchants",
+    "currency",
+    "profile",
+    "ledger",
+    "rebuild",
+    "transferWindowDays",
+    "refundWindowDays",
+    "noPublishWeb",
+    "dryRun",
+    "strict",
+    "watch",
+    "config",
+    "json"
+  ),
+  run: (argv) => runPipelineCommand(ingestCommand, argv, {})
+};
+
+export const reportCommand: CliCommand = {
+  name: "report",
+  usage: "report [options]",
+  summary: "Summarize the ledger against the current rules without writing anything.",
+  options: pipelineOptions(
+    "outDir",
+    "rules",
+    "overrides",
+    "budgets",
+    "fxRates",
+    "merchants",
+    "currency",
+    "ledger",
+    "transferWindowDays",
+    "refundWindowDays",
+    "strict",
+    "config",
+    "json"
+  ),
+  run: (argv) => runPipelineCommand(reportCommand, argv, { rebuild: true, writeOutput: false })
+};
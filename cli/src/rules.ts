@@ -0,0 +1,257 @@
+import path from "node:path";
+import {
+  BUILT_IN_CATEGORIES,
+  buildCategoryMatcher,
+  type CategoryRulesFile,
+  type CompiledRule,
+  type NormalizedTransaction,
+  type OverridesFile
+} from "@personal-spend/core";
+import type { CliCommand } from "./args";
+import { resolveCommandOptions } from "./config";
+import { loadCategoryRules, loadOverrides, readLedger, resolveFromRoot } from "./files";
+import { defaultCliOptions, ledgerCategorizer, pipelineOptions, type CliOptions } from "./ingest";
+
+type LintCliOptions = Pick<CliOptions, "rulesFile" | "overridesFile" | "fxRatesFile" | "merchantsFile" | "currency" | "ledgerFile"> & {
+  strict: boolean;
+};
+
+type RuleUsage = {
+  rule: string;
+  matches: number;
+  wins: number;
+  shadowedBy: Map<string, number>;
+  partialWordMatches: string[];
+};
+
+type LintReport = {
+  transactionCount: number;
+  unmatchedRules: string[];
+  shadowedRules: Array<{ rule: string; matches: number; shadowedBy: string[] }>;
+  partialWordRules: Array<{ rule: string; matches: number; partial: number; examples: string[] }>;
+  multiCategoryMatches: Array<{ categories: string[]; winner: string; count: number; examples: string[] }>;
+  staleOverrideIds: string[];
+  unknownGroupCategories: Array<{ group: string; category: string }>;
+};
+
+function matchesWholeWord(text: string, needle: string): boolean {
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+}
+
+function analyzeRules(
+  prefix: string,
+  rules: CompiledRule[],
+  transactions: NormalizedTransaction[],
+  reasonFor: (transaction: NormalizedTransaction) => string
+): RuleUsage[] {
+  return rules.map((rule) => {
+    const usage: RuleUsage = {
+      rule: `${prefix}.${rule.label}`,
+      matches: 0,
+      wins: 0,
+      shadowedBy: new Map<string, number>(),
+      partialWordMatches: []
+    };
+
+    for (const transaction of transactions) {
+      if (!rule.test(transaction)) {
+        continue;
+      }
+      usage.matches += 1;
+
+      // The matcher's own reason tells us whether this rule or something ahead of it decided the row.
+      const reason = reasonFor(transaction);
+      if (reason === `rule:${rule.label}`) {
+        usage.wins += 1;
+      } else {
+        usage.shadowedBy.set(reason, (usage.shadowedBy.get(reason) ?? 0) + 1);
+      }
+
+      if (rule.needle !== null && !matchesWholeWord(transaction.narrativeNormalized, rule.needle)) {
+        usage.partialWordMatches.push(transaction.narrative);
+      }
+    }
+
+    return usage;
+  });
+}
+
+function lintRules(
+  rulesConfig: CategoryRulesFile,
+  overridesConfig: OverridesFile,
+  transactions: NormalizedTransaction[],
+  categoryRules: CompiledRule[],
+  groupRules: CompiledRule[]
+): LintReport {
+  const usages = [
+    ...analyzeRules("rules", categoryRules, transactions, (transaction) => transaction.categoryReason),
+    ...analyzeRules("group_rules", groupRules, transactions, (transaction) => transaction.groupReason)
+  ];
+
+  const multiCategory = new Map<string, { categories: string[]; winner: string; count: number; examples: Set<string> }>();
+  for (const transaction of transactions) {
+    const categories = [...new Set(categoryRules.filter((rule) => rule.test(transaction)).map((rule) => rule.target))].sort();
+    if (categories.length < 2) {
+      continue;
+    }
+    const key = `${categories.join("|")}->${transaction.category}`;
+    const entry = multiCategory.get(key) ?? { categories, winner: transaction.category, count: 0, examples: new Set<string>() };
+    entry.count += 1;
+    if (entry.examples.size < 3) {
+      entry.examples.add(transaction.merchant);
+    }
+    multiCategory.set(key, entry);
+  }
+
+  const knownIds = new Set(transactions.map((transaction) => transaction.id));
+  const staleOverrideIds = [
+    ...Object.keys(overridesConfig.overrides ?? {}).map((id) => ["overrides", id.trim()]),
+    ...Object.keys(overridesConfig.group_overrides ?? {}).map((id) => ["group_overrides", id.trim()]),
+    ...Object.keys(overridesConfig.splits ?? {}).map((id) => ["splits", id.trim()]),
+    ...Object.keys(overridesConfig.tags ?? {}).map((id) => ["tags", id.trim()]),
+    ...Object.keys(overridesConfig.notes ?? {}).map((id) => ["notes", id.trim()])
+  ]
+    .filter(([, id]) => !knownIds.has(id))
+    .map(([section, id]) => `${section}.${id}`);
+
+  const knownCategories = new Set([
+    ...BUILT_IN_CATEGORIES,
+    ...Object.keys(rulesConfig.rules ?? {}),
+    ...Object.values(overridesConfig.overrides ?? {}).map((category) => category.trim()),
+    ...Object.values(overridesConfig.narrative_contains ?? {}).map((category) => category.trim()),
+    ...Object.values(overridesConfig.splits ?? {}).flatMap((shares) => Object.keys(shares ?? {}).map((category) => category.trim()))
+  ]);
+  const unknownGroupCategories = Object.entries(rulesConfig.groups ?? {}).flatMap(([group, categories]) =>
+    (categories ?? [])
+      .filter((category) => !knownCategories.has(category.trim()))
+      .map((category) => ({ group, category }))
+  );
+
+  return {
+    transactionCount: transactions.length,
+    unmatchedRules: usages.filter((usage) => usage.matches === 0).map((usage) => usage.rule),
+    shadowedRules: usages
+      .filter((usage) => usage.matches > 0 && usage.wins === 0)
+      .map((usage) => ({
+        rule: usage.rule,
+        matches: usage.matches,
+        shadowedBy: [...usage.shadowedBy.entries()].sort((a, b) => b[1] - a[1]).map(([reason]) => reason)
+      })),
+    partialWordRules: usages
+      .filter((usage) => usage.partialWordMatches.length > 0)
+      .map((usage) => ({
+        rule: usage.rule,
+        matches: usage.matches,
+        partial: usage.partialWordMatches.length,
+        examples: [...new Set(usage.partialWordMatches)].slice(0, 3)
+      })),
+    multiCategoryMatches: [...multiCategory.values()]
+      .sort((a, b) => b.count - a.count)
+      .map((entry) => ({ ...entry, examples: [...entry.examples] })),
+    staleOverrideIds,
+    unknownGroupCategories
+  };
+}
+
+function printSection(title: string, lines: string[]): void {
+  if (lines.length === 0) {
+    return;
+  }
+  console.log(`\n${title} (${lines.length}):`);
+  for (const line of lines) {
+    console.log(`  - ${line}`);
+  }
+}
+
+function countIssues(report: LintReport): number {
+  return (
+    report.unmatchedRules.length +
+    report.shadowedRules.length +
+    report.partialWordRules.length +
+    report.multiCategoryMatches.length +
+    report.staleOverrideIds.length +
+    report.unknownGroupCategories.length
+  );
+}
+
+function printReport(report: LintReport): void {
+  printSection("Rules that never match", report.unmatchedRules);
+  printSection(
+    "Rules shadowed by earlier rules or overrides",
+    report.shadowedRules.map(
+      (entry) => `${entry.rule}: ${entry.matches} matches, all decided by ${entry.shadowedBy.join(", ")}`
+    )
+  );
+  printSection(
+    "Needles matching inside other words",
+    report.partialWordRules.map(
+      (entry) => `${entry.rule}: ${entry.partial} of ${entry.matches} matches, e.g. ${entry.examples.join("; ")}`
+    )
+  );
+  printSection(
+    "Transactions matched by more than one category",
+    report.multiCategoryMatches.map(
+      (entry) =>
+        `${entry.categories.join(" + ")} -> ${entry.winner}: ${entry.count} transactions, e.g. ${entry.examples.join("; ")}`
+    )
+  );
+  printSection("Override ids not found in the ledger", report.staleOverrideIds);
+  printSection(
+    "Groups referencing unknown categories",
+    report.unknownGroupCategories.map((entry) => `${entry.group} -> ${entry.category}`)
+  );
+
+  const issueCount = countIssues(report);
+  console.log(issueCount === 0 ? "\nNo issues found." : `\n${issueCount} issue(s) found.`);
+}
+
+function lint(argv: string[]): number {
+  const { rulesFile, overridesFile, fxRatesFile, merchantsFile, currency, ledgerFile } = defaultCliOptions();
+  const { options, json, projectRoot } = resolveCommandOptions<LintCliOptions>(lintCommand, argv, {
+    rulesFile,
+    overridesFile,
+    fxRatesFile,
+    merchantsFile,
+    currency,
+    ledgerFile,
+    strict: false
+  });
+  const rulesPath = resolveFromRoot(projectRoot, options.rulesFile);
+  const overridesPath = resolveFromRoot(projectRoot, options.overridesFile);
+  const ledgerPath = resolveFromRoot(projectRoot, options.ledgerFile);
+
+  const rulesConfig = loadCategoryRules(rulesPath);
+  const overridesConfig = loadOverrides(overridesPath);
+  const matcher = buildCategoryMatcher(rulesConfig, overridesConfig);
+  // Converted first, so amount conditions are checked against the same reporting-currency amounts as in `ingest`.
+  const categorizeLedger = ledgerCategorizer(options, projectRoot, matcher);
+
+  const ledger = readLedger(ledgerPath);
+  if (ledger.length === 0) {
+    throw new Error(`Ledger is empty or missing: ${ledgerPath}. Run an ingest first.`);
+  }
+  const transactions = categorizeLedger(ledger);
+
+  const report = lintRules(rulesConfig, overridesConfig, transactions, matcher.categoryRules, matcher.groupRules);
+  if (json) {
+    console.log(JSON.stringify({ ...report, issueCount: countIssues(report) }, null, 2));
+  } else {
+    console.log(`Linting ${path.relative(projectRoot, rulesPath)} against ${transactions.length} ledger transactions`);
+    printReport(report);
+  }
+
+  return options.strict && countIssues(report) > 0 ? 1 : 0;
+}
+
+export const lintCommand: CliCommand = {
+  name: "rules lint",
+  usage: "rules lint [options]",
+  summary: "Check the category rules and overrides against the ledger.",
+  options: [
+    ...pipelineOptions("rules", "overrides", "fxRates", "merchants", "currency", "ledger"),
+    { flag: "--strict", key: "strict", description: "Exit non-zero when anything is reported" },
+    ...pipelineOptions("config", "json")
+  ],
+  run: lint
+};
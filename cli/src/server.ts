@@ -0,0 +1,474 @@
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import {
+  allocateSplit,
+  BUILT_IN_CATEGORIES,
+  loadBankProfiles,
+  normalizeText,
+  parseCsvRows,
+  parseSplitShares,
+  type ProfilesFile
+} from "@personal-spend/core";
+import { isMap, isScalar, isSeq, type Document } from "yaml";
+import { z } from "zod";
+import { UsageError, type CliCommand } from "./args";
+import { resolveCommandOptions } from "./config";
+import { loadCategoryRules, loadOverrides, loadYamlFile, resolveFromRoot, updateYamlFile } from "./files";
+import { defaultCliOptions, pipelineOptions, runIngest, type CliOptions, type IngestResult } from "./ingest";
+import { watchDirectories, watchedRuleFiles } from "./watch";
+
+type ServerContext = {
+  projectRoot: string;
+  // Hostnames the Host and Origin headers may name; see checkRequestSource.
+  allowedHostnames: Set<string>;
+  options: CliOptions;
+  rulesPath: string;
+  overridesPath: string;
+  profilesPath: string;
+  latest: IngestResult;
+  // The ledger and rule files this run was derived from, and their state at the time; see fileStamp.
+  watchedFiles: string[];
+  stamp: string;
+  clients: Set<http.ServerResponse>;
+};
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_PORT = 5174;
+// The API writes rule files and imports CSVs without any login, so it stays off the network unless asked.
+const DEFAULT_HOST = "127.0.0.1";
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+const categorySchema = z.string().trim().min(1, "category is required");
+
+const overrideEditSchema = z.union(
+  [
+    z.object({ id: z.string().trim().min(1), category: categorySchema }).strict(),
+    z.object({ narrativeContains: z.string().trim().min(1), category: categorySchema }).strict()
+  ],
+  { errorMap: () => ({ message: "expected { id, category } or { narrativeContains, category }" }) }
+);
+
+const ruleEditSchema = z
+  .object({
+    category: categorySchema,
+    contains: z.string().trim().min(1, "contains is required")
+  })
+  .strict();
+
+// An empty `shares` object removes the split.
+const splitEditSchema = z
+  .object({
+    id: z.string().trim().min(1, "id is required"),
+    shares: z.record(z.union([z.number(), z.string()]))
+  })
+  .strict();
+
+const importSchema = z
+  .object({
+    fileName: z
+      .string()
+      .trim()
+      .refine((name) => name.toLowerCase().endsWith(".csv"), "fileName must end in .csv"),
+    content: z.string().min(1, "content is empty"),
+    profile: z.string().trim().min(1).optional()
+  })
+  .strict();
+
+function parsePort(value: string, flag: string): number {
+  const port = Number.parseInt(value, 10);
+  if (!/^\d+$/.test(value) || port <= 0 || port > 65535) {
+    throw new UsageError(`${flag} expects a port number, got: ${value}`);
+  }
+  return port;
+}
+
+// As the URL API spells it: lower case, IPv6 in brackets. Null when `host` isn't a valid Host header value.
+function hostnameOf(host: string): string | null {
+  return URL.canParse(`http://${host}`) ? new URL(`http://${host}`).hostname : null;
+}
+
+// Every address of this machine, for a server listening on all of them.
+function interfaceHostnames(): string[] {
+  return Object.values(os.networkInterfaces())
+    .flatMap((addresses) => addresses ?? [])
+    .map((address) => (address.family === "IPv6" ? `[${address.address}]` : address.address));
+}
+
+function parseHost(value: string, flag: string): string {
+  // Bare IPv6 addresses are bracketed first, as they would be in a URL.
+  const host = value.includes(":") && !value.startsWith("[") ? `[${value}]` : value;
+  const url = URL.canParse(`http://${host}`) ? new URL(`http://${host}`) : null;
+  // Anything beyond a bare host (a port, a path, credentials) changes the href.
+  if (url === null || url.href !== `http://${url.hostname}/`) {
+    throw new UsageError(`${flag} expects a hostname or IP address, got: ${value}`);
+  }
+  return url.hostname;
+}
+
+// Blocks other web pages from driving the API: DNS rebinding shows up as a foreign Host, and a cross-site form or
+// fetch as a foreign Origin. Ports aren't compared, since the Vite dev server proxies /api from its own port.
+function checkRequestSource(context: ServerContext, request: http.IncomingMessage): void {
+  const host = hostnameOf(request.headers.host ?? "");
+  if (host === null || !context.allowedHostnames.has(host)) {
+    throw new HttpError(403, `Host not allowed: ${request.headers.host ?? "(none)"}`);
+  }
+  const origin = request.headers.origin;
+  if (origin !== undefined) {
+    const originHost = URL.canParse(origin) ? new URL(origin).hostname : null;
+    if (originHost === null || !context.allowedHostnames.has(originHost)) {
+      throw new HttpError(403, `Origin not allowed: ${origin}`);
+    }
+  }
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" });
+  response.end(JSON.stringify(body));
+}
+
+async function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  // A cross-site form can post text/plain without a preflight; requiring JSON rules that out.
+  const mediaType = (request.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+  if (mediaType !== "application/json") {
+    throw new HttpError(415, "Request body must be application/json");
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "null");
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new HttpError(400, `Invalid request: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`);
+  }
+  return parsed.data;
+}
+
+function knownCategories(context: ServerContext): string[] {
+  const rulesConfig = loadCategoryRules(context.rulesPath);
+  const overridesConfig = loadOverrides(context.overridesPath);
+  return [
+    ...new Set([
+      ...BUILT_IN_CATEGORIES,
+      ...Object.keys(rulesConfig.rules ?? {}),
+      ...Object.values(rulesConfig.groups ?? {}).flatMap((categories) => categories ?? []),
+      ...Object.values(overridesConfig.overrides ?? {}),
+      ...Object.values(overridesConfig.narrative_contains ?? {}),
+      ...Object.values(overridesConfig.splits ?? {}).flatMap((shares) => Object.keys(shares ?? {}))
+    ].map((category) => category.trim()))
+  ]
+    .filter((category) => category.length > 0)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+function setMapEntry(document: Document, section: string, key: string, value: string): void {
+  const map = document.get(section);
+  if (!isMap(map)) {
+    document.set(section, document.createNode({ [key]: value }));
+    return;
+  }
+  // The shipped overrides file starts as `{}`; switch to block style once it has entries.
+  map.flow = false;
+  map.set(key, value);
+}
+
+function setSplitEntry(document: Document, id: string, shares: Record<string, number | string> | null): void {
+  const splits = document.get("splits");
+  if (shares === null) {
+    if (isMap(splits)) {
+      splits.delete(id);
+    }
+    return;
+  }
+  const node = document.createNode(shares);
+  node.flow = false;
+  if (!isMap(splits)) {
+    document.set("splits", document.createNode({ [id]: node }));
+    return;
+  }
+  splits.flow = false;
+  splits.set(id, node);
+}
+
+function addRuleNeedle(document: Document, category: string, needle: string): void {
+  let rules = document.get("rules");
+  if (!isMap(rules)) {
+    document.set("rules", document.createNode({}));
+    rules = document.get("rules");
+  }
+  if (!isMap(rules)) {
+    throw new HttpError(500, "Could not create the rules section");
+  }
+
+  const entries = rules.get(category);
+  if (!isSeq(entries)) {
+    rules.set(category, document.createNode([needle]));
+    return;
+  }
+  const exists = entries.items.some((item) => isScalar(item) && normalizeText(String(item.value)) === needle);
+  if (!exists) {
+    entries.add(document.createNode(needle));
+  }
+}
+
+// Uploads land in data/raw like any other export; a different file with the same name gets a numbered suffix.
+function saveUpload(projectRoot: string, fileName: string, content: string): string {
+  const rawDir = path.join(projectRoot, "data", "raw");
+  const { name, ext } = path.parse(path.basename(fileName));
+  let target = path.join(rawDir, `${name}${ext}`);
+  for (let suffix = 2; fs.existsSync(target) && fs.readFileSync(target, "utf8") !== content; suffix += 1) {
+    target = path.join(rawDir, `${name}-${suffix}${ext}`);
+  }
+  fs.mkdirSync(rawDir, { recursive: true });
+  fs.writeFileSync(target, content, "utf8");
+  return target;
+}
+
+function datasetSummary(result: IngestResult) {
+  return {
+    generatedAt: result.sankey.generatedAt,
+    transactionCount: result.transactions.length,
+    uncategorizedCount: result.uncategorized.length
+  };
+}
+
+// Cheap enough to take on every change, and tells the server's own edits apart from other processes'.
+function fileStamp(files: string[]): string {
+  return files
+    .map((file) => {
+      const stats = fs.statSync(file, { throwIfNoEntry: false });
+      return stats ? `${stats.mtimeMs}:${stats.size}` : "-";
+    })
+    .join("|");
+}
+
+function refresh(context: ServerContext, options: CliOptions = context.options) {
+  context.latest = runIngest(options, context.projectRoot);
+  context.stamp = fileStamp(context.watchedFiles);
+  const summary = datasetSummary(context.latest);
+  for (const client of context.clients) {
+    client.write(`event: dataset\ndata: ${JSON.stringify(summary)}\n\n`);
+  }
+  return summary;
+}
+
+function openEventStream(context: ServerContext, request: http.IncomingMessage, response: http.ServerResponse): void {
+  response.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-store",
+    Connection: "keep-alive"
+  });
+  response.write(`event: ready\ndata: ${JSON.stringify(datasetSummary(context.latest))}\n\n`);
+  context.clients.add(response);
+  request.on("close", () => context.clients.delete(response));
+}
+
+async function handleRequest(
+  context: ServerContext,
+  request: http.IncomingMessage,
+  response: http.ServerResponse
+): Promise<void> {
+  checkRequestSource(context, request);
+  const route = `${request.method} ${new URL(request.url ?? "/", "http://localhost").pathname}`;
+
+  switch (route) {
+    case "GET /api/transactions.json":
+      return sendJson(response, 200, context.latest.transactions);
+    case "GET /api/uncategorized.json":
+      return sendJson(response, 200, context.latest.uncategorized);
+    case "GET /api/sankey.json":
+      return sendJson(response, 200, context.latest.sankey);
+    case "GET /api/recurring.json":
+      return sendJson(response, 200, context.latest.recurring);
+    case "GET /api/reconciliation.json":
+      return sendJson(response, 200, context.latest.reconciliation);
+    case "GET /api/rules":
+      return sendJson(response, 200, loadCategoryRules(context.rulesPath));
+    case "GET /api/overrides":
+      return sendJson(response, 200, loadOverrides(context.overridesPath));
+    case "GET /api/categories":
+      return sendJson(response, 200, knownCategories(context));
+    case "GET /api/events":
+      return openEventStream(context, request, response);
+    case "POST /api/overrides": {
+      const edit = parseBody(overrideEditSchema, await readJsonBody(request));
+      updateYamlFile(context.overridesPath, (document) => {
+        if ("id" in edit) {
+          setMapEntry(document, "overrides", edit.id, edit.category);
+        } else {
+          setMapEntry(document, "narrative_contains", normalizeText(edit.narrativeContains), edit.category);
+        }
+      });
+      console.log(`Override saved: ${"id" in edit ? edit.id : `narrative contains "${edit.narrativeContains}"`} -> ${edit.category}`);
+      return sendJson(response, 200, refresh(context));
+    }
+    case "POST /api/splits": {
+      const edit = parseBody(splitEditSchema, await readJsonBody(request));
+      const transaction = context.latest.transactions.find((candidate) => candidate.id === edit.id);
+      if (!transaction) {
+        throw new HttpError(404, `No transaction with id ${edit.id}`);
+      }
+      const removing = Object.keys(edit.shares).length === 0;
+      if (!removing) {
+        // Checked up front so a split that doesn't add up never reaches the overrides file.
+        try {
+          allocateSplit(transaction, parseSplitShares(edit.id, edit.shares));
+        } catch (error) {
+          throw new HttpError(400, error instanceof Error ? error.message : String(error));
+        }
+      }
+      updateYamlFile(context.overridesPath, (document) => setSplitEntry(document, edit.id, removing ? null : edit.shares));
+      console.log(`Split ${removing ? "removed" : "saved"}: ${edit.id}`);
+      return sendJson(response, 200, refresh(context));
+    }
+    case "POST /api/rules": {
+      const edit = parseBody(ruleEditSchema, await readJsonBody(request));
+      updateYamlFile(context.rulesPath, (document) => addRuleNeedle(document, edit.category, normalizeText(edit.contains)));
+      console.log(`Rule saved: ${edit.category} <- "${edit.contains}"`);
+      return sendJson(response, 200, refresh(context));
+    }
+    case "POST /api/import": {
+      const upload = parseBody(importSchema, await readJsonBody(request));
+      const profile = upload.profile ?? context.options.profile;
+      const profiles = loadBankProfiles(loadYamlFile<ProfilesFile>(context.profilesPath, { profiles: {} }));
+      // Parsed in memory first: a file that can't be read would otherwise stay in data/raw and break every later ingest.
+      try {
+        parseCsvRows(upload.content, profiles, profile);
+      } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : String(error));
+      }
+      const inputPath = saveUpload(context.projectRoot, upload.fileName, upload.content);
+      const summary = refresh(context, { ...context.options, rebuild: false, inputs: [inputPath], profile });
+      const source = path.relative(context.projectRoot, inputPath);
+      console.log(`Imported ${source}: ${context.latest.newEntries.length} new ledger entries`);
+      return sendJson(response, 200, {
+        ...summary,
+        source,
+        newEntries: context.latest.newEntries.length,
+        duplicateCount: context.latest.duplicateCount,
+        rejectedRows: context.latest.imports.reduce((sum, entry) => sum + entry.rejectedCount, 0)
+      });
+    }
+    default:
+      throw new HttpError(404, `No route for ${route}`);
+  }
+}
+
+function serve(argv: string[]): Promise<number> {
+  const { options: configured, projectRoot } = resolveCommandOptions(serveCommand, argv, {
+    ...defaultCliOptions(),
+    port: DEFAULT_PORT,
+    host: DEFAULT_HOST
+  });
+  // The server only ever re-derives output from the ledger; new CSVs still go through `ingest`.
+  const { port, host, ...options }: CliOptions & { port: number; host: string } = { ...configured, rebuild: true };
+
+  const watchedFiles = [resolveFromRoot(projectRoot, options.ledgerFile), ...watchedRuleFiles(options, projectRoot)];
+  const context: ServerContext = {
+    projectRoot,
+    allowedHostnames: new Set([
+      ...LOOPBACK_HOSTNAMES,
+      ...(host === "0.0.0.0" || host === "[::]" ? interfaceHostnames() : [host])
+    ]),
+    options,
+    rulesPath: resolveFromRoot(projectRoot, options.rulesFile),
+    overridesPath: resolveFromRoot(projectRoot, options.overridesFile),
+    profilesPath: resolveFromRoot(projectRoot, options.profilesFile),
+    latest: runIngest(options, projectRoot),
+    watchedFiles,
+    stamp: fileStamp(watchedFiles),
+    clients: new Set()
+  };
+
+  // `ingest` (or `ingest --watch`) and hand edits change these files behind the server's back; re-run and tell the
+  // open pages, as after an edit made through the API.
+  const stopWatching = watchDirectories(
+    watchedFiles.map((file) => path.dirname(file)),
+    (file) => watchedFiles.includes(file),
+    (files) => {
+      if (fileStamp(watchedFiles) === context.stamp) {
+        return;
+      }
+      console.log(`Changed on disk: ${files.map((file) => path.relative(projectRoot, file)).join(", ")}`);
+      try {
+        refresh(context);
+      } catch (error) {
+        console.error("Re-run failed:", error instanceof Error ? error.message : String(error));
+      }
+    }
+  );
+
+  const server = http.createServer((request, response) => {
+    handleRequest(context, request, response).catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 500) {
+        console.error("Request failed:", message);
+      }
+      sendJson(response, status, { error: message });
+    });
+  });
+
+  // Resolves once the server closes, so the process stays up until then.
+  return new Promise((resolve, reject) => {
+    server.on("error", reject);
+    server.on("close", () => {
+      stopWatching();
+      resolve(0);
+    });
+    server.listen(port, host.replace(/^\[(.*)\]$/, "$1"), () => {
+      console.log(`Serving ${context.latest.transactions.length} ledger transactions from ${path.relative(projectRoot, context.latest.ledgerPath)}`);
+      console.log(`API listening on http://${host}:${port}/api (run \`npm run web\` for the UI)`);
+    });
+  });
+}
+
+export const serveCommand: CliCommand = {
+  name: "serve",
+  usage: "serve [options]",
+  summary: "Serve the latest pipeline output and the rule-editing API for the web app.",
+  options: [
+    { flag: "--port", key: "port", value: "<port>", parse: parsePort, description: `API port (default: ${DEFAULT_PORT})` },
+    {
+      flag: "--host",
+      key: "host",
+      value: "<address>",
+      parse: parseHost,
+      description: `Address to listen on (default: ${DEFAULT_HOST}, this machine only)`
+    },
+    ...pipelineOptions(
+      "outDir",
+      "rules",
+      "overrides",
+      "profiles",
+      "budgets",
+      "fxRates",
+      "merchants",
+      "currency",
+      "ledger",
+      "transferWindowDays",
+      "refundWindowDays",
+      "noPublishWeb",
+      "config"
+    )
+  ],
+  run: serve
+};
@@ -0,0 +1,364 @@
+import fs from "node:fs";
+import path from "node:path";
+import yaml from "js-yaml";
+import { buildCategoryMatcher, linkTransactions, normalizeText, type NormalizedTransaction } from "@personal-spend/core";
+import { UsageError, type CliCommand } from "./args";
+import { resolveCommandOptions } from "./config";
+import { loadCategoryRules, loadOverrides, readLedger, resolveFromRoot } from "./files";
+import { defaultCliOptions, ledgerCategorizer, linkWindows, pipelineOptions, type CliOptions } from "./ingest";
+
+type SuggestCliOptions = Pick<
+  CliOptions,
+  | "rulesFile"
+  | "overridesFile"
+  | "fxRatesFile"
+  | "merchantsFile"
+  | "currency"
+  | "ledgerFile"
+  | "transferWindowDays"
+  | "refundWindowDays"
+> & {
+  outFile: string;
+  minSimilarity: number;
+};
+
+type Cluster = {
+  leadToken: string | null;
+  tokens: Set<string>;
+  transactions: NormalizedTransaction[];
+};
+
+type Suggestion = {
+  needle: string;
+  category: string | null;
+  confidence: number;
+  transactionCount: number;
+  spend: number;
+  examples: string[];
+  conflicts: number;
+};
+
+// Tokens that say nothing about the merchant and would make unrelated narratives look alike.
+const NOISE_TOKENS = new Set(["pty", "ltd", "au", "aus", "the", "and", "com", "www", "co", "inc"]);
+
+const SKIPPED_VOTE_CATEGORIES = new Set(["Uncategorized", "Income", "Transfers"]);
+
+function parseMinSimilarity(value: string, flag: string): number {
+  const number = Number.parseFloat(value);
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(value) || number <= 0 || number > 1) {
+    throw new UsageError(`${flag} expects a number between 0 and 1, got: ${value}`);
+  }
+  return number;
+}
+
+function roundCents(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function merchantTokens(value: string): string[] {
+  return normalizeText(value)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 2 && !/^\d+$/.test(token) && !NOISE_TOKENS.has(token));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = [...a].filter((token) => b.has(token)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+function clusterTransactions(transactions: NormalizedTransaction[], minSimilarity: number): Cluster[] {
+  const clusters: Cluster[] = [];
+  // Sorted by merchant so clustering, and therefore the patch, is stable between runs.
+  const sorted = [...transactions].sort((a, b) => a.merchant.localeCompare(b.merchant) || a.id.localeCompare(b.id));
+
+  for (const transaction of sorted) {
+    const orderedTokens = merchantTokens(transaction.merchant);
+    const tokens = new Set(orderedTokens);
+    const leadToken = orderedTokens[0] ?? null;
+    let best: { cluster: Cluster; score: number } | null = null;
+    for (const cluster of clusters) {
+      // A shared leading word is usually the brand ("coles 555 richmond" vs "coles hawthorn"),
+      // so it clusters even when store numbers and suburbs differ.
+      const score = leadToken !== null && leadToken === cluster.leadToken ? 1 : similarity(tokens, cluster.tokens);
+      if (score >= minSimilarity && (!best || score > best.score)) {
+        best = { cluster, score };
+      }
+    }
+
+    if (best) {
+      best.cluster.transactions.push(transaction);
+      // Keep only the tokens every member shares so the cluster cannot drift.
+      best.cluster.tokens = new Set([...best.cluster.tokens].filter((token) => tokens.has(token)));
+    } else {
+      clusters.push({ leadToken, tokens, transactions: [transaction] });
+    }
+  }
+
+  return clusters;
+}
+
+// Every span of the raw merchant name (as it appears in the narrative), longest first from each start.
+function merchantSpans(transaction: NormalizedTransaction): string[] {
+  const tokens = normalizeText(transaction.merchantRaw).split(" ").filter(Boolean);
+  const spans: string[] = [];
+  for (let start = 0; start < tokens.length; start += 1) {
+    for (let end = tokens.length; end > start; end -= 1) {
+      spans.push(tokens.slice(start, end).join(" "));
+    }
+  }
+  return spans.filter((span) => merchantTokens(span).length > 0);
+}
+
+// A needle is only proposed for the members whose narrative it matches, the way the rule will match them. When no
+// span of the first member's raw name matches the whole cluster (an alias can join unrelated spellings), the cluster
+// is split: the best span takes the members it matches and the rest get a needle of their own.
+function proposeNeedles(cluster: Cluster): Array<{ needle: string; transactions: NormalizedTransaction[] }> {
+  // Prefer spans without store numbers that start at the brand word of the raw name, then ones that match more
+  // members, then the shortest one that is still specific enough to be a needle.
+  const rank = (span: string, leadToken: string | undefined, memberCount: number) => {
+    const words = span.split(/[^a-z0-9]+/).filter(Boolean);
+    return [
+      words.some((word) => /^\d+$/.test(word)) ? 1 : 0,
+      words[0] === leadToken ? 0 : 1,
+      -memberCount,
+      span.length >= 4 ? 0 : 1,
+      words.length,
+      span.length
+    ];
+  };
+  const compareRanks = (a: number[], b: number[]) => a.reduce((result, value, index) => result || value - b[index], 0);
+
+  const needles: Array<{ needle: string; transactions: NormalizedTransaction[] }> = [];
+  let remaining = cluster.transactions;
+  while (remaining.length > 0) {
+    const [leadToken] = merchantTokens(remaining[0].merchantRaw);
+    const candidates = merchantSpans(remaining[0])
+      .map((span) => ({
+        span,
+        members: remaining.filter((transaction) => transaction.narrativeNormalized.includes(span))
+      }))
+      .filter((candidate) => candidate.members.length > 0)
+      .sort(
+        (a, b) =>
+          compareRanks(rank(a.span, leadToken, a.members.length), rank(b.span, leadToken, b.members.length)) ||
+          a.span.localeCompare(b.span)
+      );
+    const best = candidates[0];
+    // A raw name that never appears in its own narrative can't become a rule; leave that row for a manual override.
+    const matched = best ? best.members : [remaining[0]];
+    if (best) {
+      needles.push({ needle: best.span, transactions: best.members });
+    }
+    remaining = remaining.filter((transaction) => !matched.includes(transaction));
+  }
+  return needles;
+}
+
+function guessCategory(
+  cluster: Cluster,
+  needle: string,
+  categorized: NormalizedTransaction[],
+  minSimilarity: number
+): { category: string | null; confidence: number; conflicts: number } {
+  const votes = new Map<string, number>();
+  const needleMatches = categorized.filter((transaction) => transaction.narrativeNormalized.includes(needle));
+
+  if (needleMatches.length > 0) {
+    for (const transaction of needleMatches) {
+      votes.set(transaction.category, (votes.get(transaction.category) ?? 0) + 1);
+    }
+  } else {
+    for (const transaction of categorized) {
+      const score = similarity(cluster.tokens, new Set(merchantTokens(transaction.merchant)));
+      if (score >= minSimilarity) {
+        votes.set(transaction.category, (votes.get(transaction.category) ?? 0) + score);
+      }
+    }
+  }
+
+  const ranked = [...votes.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const totalVotes = ranked.reduce((sum, [, weight]) => sum + weight, 0);
+  if (ranked.length === 0 || totalVotes === 0) {
+    return { category: null, confidence: 0, conflicts: 0 };
+  }
+
+  const [category, weight] = ranked[0];
+  return {
+    category,
+    confidence: weight / totalVotes,
+    // Already-categorized rows in other categories that the needle would also hit.
+    conflicts: needleMatches.filter((transaction) => transaction.category !== category).length
+  };
+}
+
+function buildSuggestions(
+  transactions: NormalizedTransaction[],
+  minSimilarity: number
+): { suggestions: Suggestion[]; uncategorizedSpend: number } {
+  const uncategorized = transactions.filter(
+    (transaction) => transaction.direction === "debit" && transaction.category === "Uncategorized"
+  );
+  const categorized = transactions.filter(
+    (transaction) => transaction.direction === "debit" && !SKIPPED_VOTE_CATEGORIES.has(transaction.category)
+  );
+
+  const suggestions = clusterTransactions(uncategorized, minSimilarity).flatMap((cluster) =>
+    proposeNeedles(cluster).map(({ needle, transactions: members }) => {
+      const guess = guessCategory(cluster, needle, categorized, minSimilarity);
+      return {
+        needle,
+        category: guess.category,
+        confidence: guess.confidence,
+        transactionCount: members.length,
+        spend: roundCents(members.reduce((sum, transaction) => sum + transaction.amount, 0)),
+        examples: [...new Set(members.map((transaction) => transaction.merchant))].slice(0, 3),
+        conflicts: guess.conflicts
+      };
+    })
+  );
+
+  return {
+    suggestions: suggestions.sort((a, b) => b.spend - a.spend || a.needle.localeCompare(b.needle)),
+    uncategorizedSpend: roundCents(uncategorized.reduce((sum, transaction) => sum + transaction.amount, 0))
+  };
+}
+
+function formatYamlScalar(value: string): string {
+  return yaml.dump(value).trim();
+}
+
+function renderPatch(suggestions: Suggestion[]): string {
+  const lines = [
+    "# Suggested rules for uncategorized debits, generated by `npm run suggest`.",
+    "# Review each needle, then merge the entries you keep into rules/categories.yml."
+  ];
+  const byCategory = new Map<string, Suggestion[]>();
+  for (const suggestion of suggestions) {
+    if (suggestion.category) {
+      byCategory.set(suggestion.category, [...(byCategory.get(suggestion.category) ?? []), suggestion]);
+    }
+  }
+
+  const describe = (suggestion: Suggestion) => {
+    const parts = [`${suggestion.transactionCount} tx`, suggestion.spend.toFixed(2)];
+    if (suggestion.category) {
+      parts.push(`${Math.round(suggestion.confidence * 100)}% confidence`);
+    }
+    if (suggestion.conflicts > 0) {
+      parts.push(`also hits ${suggestion.conflicts} tx in other categories`);
+    }
+    return parts.join(", ");
+  };
+
+  lines.push("rules:");
+  for (const [category, entries] of [...byCategory.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`  ${formatYamlScalar(category)}:`);
+    for (const entry of entries) {
+      lines.push(`    - ${formatYamlScalar(entry.needle)} # ${describe(entry)}`);
+    }
+  }
+
+  const unassigned = suggestions.filter((suggestion) => !suggestion.category);
+  if (unassigned.length > 0) {
+    lines.push("", "# No similar categorized transactions; pick a category for these by hand.");
+    for (const entry of unassigned) {
+      lines.push(`#   - ${formatYamlScalar(entry.needle)} # ${describe(entry)}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function suggest(argv: string[]): number {
+  const { rulesFile, overridesFile, fxRatesFile, merchantsFile, currency, ledgerFile, transferWindowDays, refundWindowDays } =
+    defaultCliOptions();
+  const { options, json, projectRoot } = resolveCommandOptions<SuggestCliOptions>(suggestCommand, argv, {
+    rulesFile,
+    overridesFile,
+    fxRatesFile,
+    merchantsFile,
+    currency,
+    ledgerFile,
+    transferWindowDays,
+    refundWindowDays,
+    outFile: path.join("data", "processed", "rule-suggestions.yml"),
+    minSimilarity: 0.5
+  });
+  const rulesPath = resolveFromRoot(projectRoot, options.rulesFile);
+  const overridesPath = resolveFromRoot(projectRoot, options.overridesFile);
+  const ledgerPath = resolveFromRoot(projectRoot, options.ledgerFile);
+  const outPath = resolveFromRoot(projectRoot, options.outFile);
+
+  const matcher = buildCategoryMatcher(loadCategoryRules(rulesPath), loadOverrides(overridesPath));
+  // Linked and converted as in `ingest`, so spend coverage is in the reporting currency and counts the same debits.
+  const categorizeLedger = ledgerCategorizer(options, projectRoot, matcher);
+  const ledger = readLedger(ledgerPath);
+  if (ledger.length === 0) {
+    throw new Error(`Ledger is empty or missing: ${ledgerPath}. Run an ingest first.`);
+  }
+  const transactions = linkTransactions(categorizeLedger(ledger), matcher, linkWindows(options));
+
+  const { suggestions, uncategorizedSpend } = buildSuggestions(transactions, options.minSimilarity);
+  if (suggestions.length > 0) {
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, renderPatch(suggestions), "utf8");
+  }
+  if (json) {
+    const outFile = suggestions.length > 0 ? path.relative(projectRoot, outPath) : null;
+    console.log(JSON.stringify({ uncategorizedSpend, suggestions, outFile }, null, 2));
+    return 0;
+  }
+  if (suggestions.length === 0) {
+    console.log("No uncategorized debit transactions. Nothing to suggest.");
+    return 0;
+  }
+
+  console.log(`Suggestions for ${suggestions.length} merchant clusters:`);
+  for (const suggestion of suggestions) {
+    const coverage = uncategorizedSpend > 0 ? suggestion.spend / uncategorizedSpend : 0;
+    console.log(
+      `  ${suggestion.needle} -> ${suggestion.category ?? "?"}: ${suggestion.transactionCount} tx, ` +
+        `${suggestion.spend.toFixed(2)} (${Math.round(coverage * 100)}% of uncategorized spend), ` +
+        `e.g. ${suggestion.examples.join("; ")}`
+    );
+  }
+
+  const assignedSpend = suggestions
+    .filter((suggestion) => suggestion.category)
+    .reduce((sum, suggestion) => sum + suggestion.spend, 0);
+  const assignedShare = uncategorizedSpend > 0 ? assignedSpend / uncategorizedSpend : 0;
+  console.log(
+    `Suggestions with a category cover ${assignedSpend.toFixed(2)} (${Math.round(assignedShare * 100)}%) ` +
+      `of ${uncategorizedSpend.toFixed(2)} uncategorized spend`
+  );
+  console.log(`Wrote rule patch to: ${path.relative(projectRoot, outPath)}`);
+  return 0;
+}
+
+export const suggestCommand: CliCommand = {
+  name: "rules suggest",
+  usage: "rules suggest [options]",
+  summary: "Propose rules for uncategorized debits and write them as a patch to review.",
+  options: [
+    ...pipelineOptions("rules", "overrides", "fxRates", "merchants", "currency", "ledger", "transferWindowDays", "refundWindowDays"),
+    {
+      flag: "--out",
+      key: "outFile",
+      value: "<path>",
+      description: "Where to write the patch (default: data/processed/rule-suggestions.yml)"
+    },
+    {
+      flag: "--min-similarity",
+      key: "minSimilarity",
+      value: "<0..1>",
+      parse: parseMinSimilarity,
+      description: "How alike merchant names must be to share a rule (default: 0.5)"
+    },
+    ...pipelineOptions("config", "json")
+  ],
+  run: suggest
+};
+
@@ -0,0 +1,92 @@
+import fs from "node:fs";
+import path from "node:path";
+import { resolveFromRoot } from "./files";
+import type { CliOptions } from "./ingest";
+
+// Editors and exports write in several steps; wait for them to settle before re-running.
+const DEBOUNCE_MS = 300;
+
+export function watchedRuleFiles(options: CliOptions, projectRoot: string): string[] {
+  return [
+    options.rulesFile,
+    options.overridesFile,
+    options.merchantsFile,
+    options.profilesFile,
+    options.budgetsFile,
+    options.fxRatesFile
+  ].map((file) => resolveFromRoot(projectRoot, file));
+}
+
+// Calls `onChange` once writes under `directories` that `accepts` cares about have settled. Directories rather than
+// files, so editors that save by replacing the file don't end the watch. Returns a function that stops watching.
+export function watchDirectories(
+  directories: string[],
+  accepts: (file: string, directory: string) => boolean,
+  onChange: (files: string[]) => void
+): () => void {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    timer = null;
+    const files = [...pending];
+    pending.clear();
+    onChange(files);
+  };
+
+  const watchers = [...new Set(directories)]
+    .filter((directory) => fs.existsSync(directory))
+    .map((directory) =>
+      fs.watch(directory, (_event, fileName) => {
+        const file = fileName ? path.join(directory, fileName.toString()) : null;
+        if (!file || !accepts(file, directory)) {
+          return;
+        }
+        pending.add(file);
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(flush, DEBOUNCE_MS);
+      })
+    );
+
+  return () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    watchers.forEach((watcher) => watcher.close());
+  };
+}
+
+// Watches data/raw and the rule files until interrupted. A new or changed CSV is imported on its own (the ledger
+// dedupes it); a rule edit re-derives everything from the ledger.
+export function watchIngest(options: CliOptions, projectRoot: string, run: (options: CliOptions) => void): Promise<number> {
+  const rawDir = path.join(projectRoot, "data", "raw");
+  fs.mkdirSync(rawDir, { recursive: true });
+  const ruleFiles = new Set(watchedRuleFiles(options, projectRoot));
+  const directories = [rawDir, ...[...ruleFiles].map((file) => path.dirname(file))];
+  const isCsv = (file: string, directory: string) => directory === rawDir && file.toLowerCase().endsWith(".csv");
+
+  const stop = watchDirectories(
+    directories,
+    (file, directory) => isCsv(file, directory) || ruleFiles.has(file),
+    (files) => {
+      const csvFiles = files.filter((file) => isCsv(file, path.dirname(file)) && fs.existsSync(file));
+      console.log(`\n[${new Date().toLocaleTimeString()}] Changed: ${files.map((file) => path.relative(projectRoot, file)).join(", ")}`);
+      try {
+        run(csvFiles.length > 0 ? { ...options, rebuild: false, inputs: csvFiles } : { ...options, rebuild: true });
+      } catch (error) {
+        // A half-saved YAML file is normal while editing; report it and wait for the next save.
+        console.error("Re-run failed:", error instanceof Error ? error.message : String(error));
+      }
+    }
+  );
+
+  console.log(`\nWatching ${[...new Set(directories)].map((directory) => path.relative(projectRoot, directory) || ".").join(", ")} (Ctrl+C to stop)`);
+  return new Promise((resolve) => {
+    process.once("SIGINT", () => {
+      stop();
+      resolve(0);
+    });
+  });
+}
@@ -0,0 +1,2062 @@
+import Papa from "papaparse";
+import { z } from "zod";
+
+export type Direction = "debit" | "credit" | "neutral";
+
+export type LinkType = "transfer" | "refund";
+
+export type SankeyNode = { name: string };
+
+export type SankeyLink = { source: number; target: number; value: number };
+
+export type SankeyData = {
+  generatedAt: string;
+  currency: string;
+  nodes: SankeyNode[];
+  links: SankeyLink[];
+  summary: {
+    totalSpend: number;
+    transactionCount: number;
+  };
+  budgets: BudgetStatus[];
+};
+
+export type NormalizedTransaction = {
+  id: string;
+  date: string;
+  accountId: string;
+  narrative: string;
+  narrativeNormalized: string;
+  // Canonical name (alias or cleaned up), used for every aggregation; `merchantRaw` is what the import inferred.
+  merchant: string;
+  merchantRaw: string;
+  merchantReason: string;
+  // Amounts are in the reporting currency; `originalAmount` keeps the signed amount in `currency`.
+  debitAmount: number;
+  creditAmount: number;
+  amount: number;
+  currency: string;
+  originalAmount: number;
+  // Reporting-currency units per unit of `currency`; 1 when they are the same.
+  fxRate: number;
+  direction: Direction;
+  // As exported, in the account's own currency.
+  balance: number | null;
+  sourceCategory: string;
+  category: string;
+  categoryReason: string;
+  group: string;
+  groupReason: string;
+  linkId: string | null;
+  linkType: LinkType | null;
+  // Set when the transaction is split across categories; the shares add up exactly to `amount`.
+  allocations: Allocation[] | null;
+  // Lower-case, without the leading `#`; independent of the category.
+  tags: string[];
+  note: string | null;
+};
+
+export type CategorySpendChange = {
+  category: string;
+  // Positive when spend moved into the category.
+  change: number;
+};
+
+export type CategoryShare = Pick<Allocation, "category" | "amount">;
+
+export type TransactionCategoryChange = {
+  id: string;
+  date: string;
+  merchant: string;
+  amount: number;
+  previousCategory: string;
+  category: string;
+  // The shares of a split transaction, whose `category` is only ever "Split"; null when it wasn't split.
+  previousAllocations: CategoryShare[] | null;
+  allocations: CategoryShare[] | null;
+  previousReason: string;
+  categoryReason: string;
+  // Spend this transaction moved between categories, share by share; empty when it doesn't count as spend.
+  spendChanges: CategorySpendChange[];
+};
+
+export type CategoryChangeReport = {
+  generatedAt: string;
+  hasBaseline: boolean;
+  summary: {
+    // Transactions present in both runs.
+    comparedCount: number;
+    changedCount: number;
+  };
+  changes: TransactionCategoryChange[];
+  // Net spend moved into (positive) or out of each category by the changes above.
+  spendChanges: CategorySpendChange[];
+};
+
+export type Allocation = {
+  category: string;
+  group: string;
+  amount: number;
+  originalAmount: number;
+};
+
+// As imported and stored in the ledger: amounts are still in the transaction's own currency.
+export type BaseTransaction = Omit<
+  NormalizedTransaction,
+  | "category"
+  | "categoryReason"
+  | "group"
+  | "groupReason"
+  | "linkId"
+  | "linkType"
+  | "originalAmount"
+  | "fxRate"
+  | "allocations"
+  | "tags"
+  | "note"
+  | "merchantRaw"
+  | "merchantReason"
+>;
+
+export type ConvertedTransaction = BaseTransaction & Pick<NormalizedTransaction, "originalAmount" | "fxRate">;
+
+export type CategorizedTransaction = Omit<
+  NormalizedTransaction,
+  "group" | "groupReason" | "linkId" | "linkType" | "allocations"
+>;
+
+export type LinkWindows = {
+  transferWindowDays: number;
+  refundWindowDays: number;
+};
+
+export type CategoryMatcher = {
+  categoryRules: CompiledRule[];
+  groupRules: CompiledRule[];
+  categoryFor: (transaction: BaseTransaction) => { category: string; reason: string };
+  splitFor: (transaction: BaseTransaction) => SplitShare[] | null;
+  annotationsFor: (transaction: BaseTransaction) => Pick<NormalizedTransaction, "tags" | "note">;
+  groupFor: (transaction: CategorizedTransaction) => { group: string; reason: string };
+};
+
+export type MerchantResolver = {
+  aliasRules: CompiledRule[];
+  merchantFor: (transaction: BaseTransaction) => { merchant: string; reason: string };
+};
+
+export type MerchantsFile = {
+  merchants?: Record<string, unknown[] | null>;
+};
+
+export type CategoryRulesFile = {
+  rules?: Record<string, unknown[] | null>;
+  groups?: Record<string, string[]>;
+  group_rules?: Record<string, unknown[] | null>;
+};
+
+export type CompiledRule = {
+  target: string;
+  label: string;
+  needle: string | null;
+  priority: number;
+  order: number;
+  test: (transaction: BaseTransaction) => boolean;
+};
+
+export type OverridesFile = {
+  overrides?: Record<string, string>;
+  narrative_contains?: Record<string, string>;
+  group_overrides?: Record<string, string>;
+  group_narrative_contains?: Record<string, string>;
+  splits?: Record<string, Record<string, unknown> | null>;
+  tags?: Record<string, unknown>;
+  narrative_tags?: Record<string, unknown>;
+  notes?: Record<string, string>;
+  narrative_notes?: Record<string, string>;
+};
+
+// One category's part of a split: a fixed amount in the transaction's own currency, or a percentage.
+export type SplitShare = {
+  category: string;
+  amount: number | null;
+  percent: number | null;
+};
+
+const splitShareSchema = z.union([
+  z.number().positive(),
+  z
+    .string()
+    .trim()
+    .regex(/^\d+(\.\d+)?\s*%$/, "expected an amount or a percentage like 40%")
+]);
+
+const stringOrListSchema = z.union([z.string(), z.array(z.string())]);
+
+const tagSchema = z
+  .string()
+  .trim()
+  .transform((tag) => tag.replace(/^#/, "").toLowerCase())
+  .pipe(z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "expected a tag like holiday-japan (letters, digits, - and _)"));
+
+const tagListSchema = z.union([tagSchema.transform((tag) => [tag]), z.array(tagSchema)]);
+
+// A rule is either a plain substring needle or an object whose conditions must all hold.
+const ruleEntrySchema = z.union([
+  z.string(),
+  z
+    .object({
+      name: z.string().optional(),
+      contains: z.string().optional(),
+      regex: z.string().optional(),
+      amount: z.object({ min: z.number().optional(), max: z.number().optional() }).strict().optional(),
+      direction: z.enum(["debit", "credit"]).optional(),
+      account: stringOrListSchema.optional(),
+      sourceCategory: stringOrListSchema.optional(),
+      date: z
+        .object({
+          from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+          to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+        })
+        .strict()
+        .optional(),
+      priority: z.number().optional()
+    })
+    .strict()
+    .refine(
+      (rule) =>
+        [rule.contains, rule.regex, rule.amount, rule.direction, rule.account, rule.sourceCategory, rule.date].some(
+          (condition) => condition !== undefined
+        ),
+      { message: "rule needs at least one condition" }
+    )
+]);
+
+export type SpendFields = Pick<NormalizedTransaction, "date" | "amount" | "direction" | "category" | "group" | "linkType">;
+
+// Outputs written before splits existed have no `allocations`.
+export type CategorizedSnapshot = SpendFields &
+  Pick<NormalizedTransaction, "id" | "categoryReason"> &
+  Partial<Pick<NormalizedTransaction, "allocations">>;
+
+export type BudgetPeriod = "month" | "year";
+
+export type BudgetsFile = {
+  categories?: Record<string, unknown>;
+  groups?: Record<string, unknown>;
+};
+
+export type Budget = {
+  scope: "category" | "group";
+  name: string;
+  amount: number;
+  period: BudgetPeriod;
+};
+
+export type BudgetStatus = Budget & {
+  from: string;
+  to: string;
+  // The budget scaled to the from..to window.
+  limit: number;
+  actual: number;
+  remaining: number;
+  // Straight-line projection to the end of the window; null once the window is over.
+  projected: number | null;
+  overBudget: boolean;
+};
+
+const budgetEntrySchema = z.union([
+  z.number().positive(),
+  z
+    .object({
+      amount: z.number().positive(),
+      period: z.enum(["month", "year"]).default("month")
+    })
+    .strict()
+]);
+
+export type RecurringCadence = "weekly" | "fortnightly" | "monthly" | "annual";
+
+export type RecurringItem = {
+  id: string;
+  merchant: string;
+  category: string;
+  group: string;
+  cadence: RecurringCadence;
+  occurrences: number;
+  firstDate: string;
+  lastDate: string;
+  nextExpectedDate: string;
+  // The latest charge; price changes are listed separately.
+  amount: number;
+  annualCost: number;
+  priceChanges: Array<{ date: string; from: number; to: number }>;
+  uncategorized: boolean;
+  // No charge since the expected date (plus the cadence's tolerance), as of the latest transaction in the data.
+  stopped: boolean;
+  transactionIds: string[];
+};
+
+export type RecurringReport = {
+  generatedAt: string;
+  asOf: string | null;
+  summary: {
+    activeCount: number;
+    activeAnnualCost: number;
+    uncategorizedCount: number;
+    stoppedCount: number;
+  };
+  items: RecurringItem[];
+};
+
+export type ReconciliationBreakKind = "gap" | "missing-rows" | "duplicate" | "out-of-order";
+
+export type ReconciliationBreak = {
+  kind: ReconciliationBreakKind;
+  accountId: string;
+  transactionId: string;
+  date: string;
+  source: string | null;
+  // The last row whose balance checked out; null when nothing came before it.
+  previousDate: string | null;
+  expectedBalance: number | null;
+  actualBalance: number | null;
+  // Net amount the balance moved by that no row explains (positive means missing debits).
+  difference: number;
+  message: string;
+};
+
+export type AccountReconciliation = {
+  accountId: string;
+  currency: string;
+  from: string;
+  to: string;
+  transactionCount: number;
+  // Rows without a balance can't be checked on their own; their amounts still carry into the next balance.
+  uncheckedCount: number;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  breakCount: number;
+  status: "reconciled" | "breaks" | "no-balances";
+};
+
+export type ReconciliationReport = {
+  generatedAt: string;
+  summary: {
+    accountCount: number;
+    reconciledCount: number;
+    noBalanceCount: number;
+    breakCount: number;
+  };
+  accounts: AccountReconciliation[];
+  breaks: ReconciliationBreak[];
+};
+
+// Balances are in the account's own currency, so `amount` must not have been converted yet.
+export type ReconcileRow = Pick<
+  BaseTransaction,
+  "id" | "date" | "accountId" | "narrative" | "amount" | "currency" | "balance"
+> & { source?: string };
+
+export type FxRatesFile = {
+  rates?: Record<string, unknown>;
+};
+
+export type FxTable = {
+  reportingCurrency: string;
+  // Per currency, sorted by date.
+  rates: Map<string, Array<{ date: string; rate: number }>>;
+};
+
+const currencyCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, "expected a three-letter currency code")
+  .transform((code) => code.toUpperCase());
+
+const fxRatesSchema = z.record(
+  currencyCodeSchema,
+  z.record(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD dates"), z.number().positive())
+);
+
+export type ProfilesFile = {
+  profiles?: Record<string, unknown>;
+};
+
+export type BankProfile = Omit<z.infer<typeof bankProfileSchema>, "merchantPrefixes"> & {
+  name: string;
+  merchantPrefixes: RegExp[];
+};
+
+export type BankRow = z.infer<typeof bankRowSchema>;
+
+export type RowRejection = {
+  // 1-based line in the CSV file, counting the header.
+  line: number;
+  field: keyof BankRow | null;
+  column: string | null;
+  value: string | null;
+  // The Zod issue code, or Papa Parse's error code for rows that didn't parse as CSV.
+  code: string;
+  message: string;
+};
+
+const bankProfileSchema = z
+  .object({
+    columns: z.object({
+      account: z.string().optional(),
+      date: z.string(),
+      narrative: z.string(),
+      debit: z.string().optional(),
+      credit: z.string().optional(),
+      amount: z.string().optional(),
+      balance: z.string().optional(),
+      category: z.string().optional(),
+      serial: z.string().optional(),
+      currency: z.string().optional()
+    }),
+    dateFormat: z.string().default("DD/MM/YYYY"),
+    amountSign: z.enum(["debit-negative", "debit-positive"]).default("debit-negative"),
+    accountId: z.string().optional(),
+    currency: currencyCodeSchema.optional(),
+    merchantPrefixes: z.array(z.string()).default([])
+  })
+  .refine((profile) => Boolean(profile.columns.amount || profile.columns.debit || profile.columns.credit), {
+    message: "columns must map `amount` or `debit`/`credit`"
+  })
+  .refine((profile) => dateFormatOrder(profile.dateFormat) !== null, {
+    message: "dateFormat must contain one day, month and year token, e.g. DD/MM/YYYY or YYYY-MM-DD"
+  });
+
+// Profile-independent row shape that every bank layout is mapped onto before normalization.
+const bankRowSchema = z.object({
+  account: z.string(),
+  date: z.string(),
+  narrative: z.string(),
+  debitAmount: z.string().optional(),
+  creditAmount: z.string().optional(),
+  amount: z.string().optional(),
+  balance: z.string().optional(),
+  sourceCategory: z.string().optional(),
+  serial: z.string().optional(),
+  currency: z.string().optional()
+});
+
+const BUILT_IN_PROFILES: Record<string, z.input<typeof bankProfileSchema>> = {
+  westpac: {
+    columns: {
+      account: "Bank Account",
+      date: "Date",
+      narrative: "Narrative",
+      debit: "Debit Amount",
+      credit: "Credit Amount",
+      balance: "Balance",
+      category: "Categories",
+      serial: "Serial"
+    },
+    dateFormat: "DD/MM/YYYY",
+    merchantPrefixes: [
+      "^DEPOSIT[-\\s]OSKO PAYMENT\\s+\\d+\\s+",
+      "^WITHDRAWAL[-\\s]OSKO PAYMENT\\s+\\d+\\s+",
+      "^WITHDRAWAL MOBILE\\s+\\d+\\s+TFR\\s+",
+      "^PAYMENT BY AUTHORITY TO\\s+",
+      "^DEPOSIT\\s+"
+    ]
+  }
+};
+
+const EXCLUDED_SPEND_CATEGORIES = new Set(["Income", "Transfers"]);
+
+// Payment processors and terminals that prefix the real merchant, e.g. "SQ *CAFE", "VISA PURCHASE COLES".
+const PROCESSOR_PREFIXES = [/^(visa|eftpos|debit card|card|pos)\s+(purchase|debit)\s+/i, /^(sq|sqr|paypal|pp|zlr|lsp|ezi|tst)\s*\*\s*/i];
+const MERCHANT_NOISE = [
+  // Masked card numbers: "CARD XX1234", "xxxx5678".
+  /\b(card\s*)?x{2,}\d{2,4}\b/gi,
+  /\bvalue date:?/gi,
+  /\b\d{1,2}\/\d{1,2}(\/\d{2,4})?\b/g,
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+  /\b\d{1,2}(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\d{0,4}\b/gi
+];
+// Store and terminal numbers such as "1234", "#55" or "P1234"; a leading number ("1300 FLOWERS") is kept.
+const STORE_NUMBER = /^(#?\d+|[a-z]{1,2}\d{3,})$/i;
+const LOCATION_SUFFIXES = new Set([
+  "au",
+  "aus",
+  "australia",
+  "nsw",
+  "vic",
+  "qld",
+  "sa",
+  "wa",
+  "tas",
+  "nt",
+  "act",
+  "sydney",
+  "melbourne",
+  "brisbane",
+  "perth",
+  "adelaide",
+  "hobart",
+  "darwin",
+  "canberra"
+]);
+
+export const DEFAULT_LINK_WINDOWS: LinkWindows = { transferWindowDays: 3, refundWindowDays: 90 };
+
+// Rows with no currency column or profile currency, and ledgers written before currencies were recorded.
+export const DEFAULT_CURRENCY = "AUD";
+
+// Categories the pipeline assigns on its own (fallbacks and transfer matching), so rules need not declare them.
+export const BUILT_IN_CATEGORIES = new Set(["Income", "Interest", "Transfers", "Uncategorized"]);
+
+const BALANCE_TOLERANCE = 0.005;
+
+// `tolerance` is how many days a charge may drift from the cadence (weekends, short months, processing delays).
+const RECURRING_CADENCES: Array<{
+  cadence: RecurringCadence;
+  days: number;
+  tolerance: number;
+  perYear: number;
+  minOccurrences: number;
+}> = [
+  { cadence: "weekly", days: 7, tolerance: 1, perYear: 52, minOccurrences: 4 },
+  { cadence: "fortnightly", days: 14, tolerance: 2, perYear: 26, minOccurrences: 3 },
+  { cadence: "monthly", days: 30.44, tolerance: 4, perYear: 12, minOccurrences: 3 },
+  { cadence: "annual", days: 365.25, tolerance: 10, perYear: 1, minOccurrences: 2 }
+];
+
+export function parseMoney(value: string | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const cleaned = value.replace(/[$,\s]/g, "").trim();
+  if (!cleaned) {
+    return 0;
+  }
+  const numeric = Number.parseFloat(cleaned);
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+function dateFormatOrder(dateFormat: string): Array<"D" | "M" | "Y"> | null {
+  const tokens = dateFormat
+    .toUpperCase()
+    .split(/[^DMY]+/)
+    .filter(Boolean);
+  const order = tokens.map((token) => token[0] as "D" | "M" | "Y");
+  const isValid =
+    tokens.length === 3 &&
+    tokens.every((token) => /^(D{1,2}|M{1,2}|Y{2}|Y{4})$/.test(token)) &&
+    new Set(order).size === 3;
+  return isValid ? order : null;
+}
+
+export function parseDate(dateValue: string, dateFormat: string): string {
+  const trimmed = dateValue.trim();
+  const order = dateFormatOrder(dateFormat);
+  // Extra trailing parts (e.g. a time component) are ignored.
+  const parts = trimmed.split(/[^0-9]+/).filter(Boolean);
+  if (!order || parts.length < 3) {
+    throw new Error(`Unsupported date format: ${dateValue} (expected ${dateFormat})`);
+  }
+
+  const values: Record<"D" | "M" | "Y", number> = { D: Number.NaN, M: Number.NaN, Y: Number.NaN };
+  order.forEach((token, index) => {
+    values[token] = Number.parseInt(parts[index], 10);
+  });
+  const day = values.D;
+  const month = values.M;
+  const year = values.Y < 100 ? 2000 + values.Y : values.Y;
+  // Date.UTC rolls 31/02 over into March, so a date that doesn't come back unchanged doesn't exist.
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  if (
+    !Number.isInteger(day) ||
+    !Number.isInteger(month) ||
+    !Number.isInteger(year) ||
+    month < 1 ||
+    month > 12 ||
+    calendarDate.getUTCMonth() !== month - 1 ||
+    calendarDate.getUTCDate() !== day
+  ) {
+    throw new Error(`Invalid date parts: ${dateValue} (expected ${dateFormat})`);
+  }
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export function normalizeText(value: string): string {
+  return value
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+export function inferMerchant(narrative: string, merchantPrefixes: RegExp[]): string {
+  const cleaned = merchantPrefixes
+    .reduce((value, prefix) => value.replace(prefix, ""), narrative.replace(/\s+/g, " "))
+    .trim();
+
+  return cleaned || narrative.trim();
+}
+
+export function cleanMerchantName(merchant: string): string {
+  const withoutPrefix = PROCESSOR_PREFIXES.reduce((value, prefix) => value.replace(prefix, ""), merchant.replace(/\s+/g, " ").trim());
+  const withoutNoise = MERCHANT_NOISE.reduce((value, pattern) => value.replace(pattern, " "), withoutPrefix);
+  const tokens = withoutNoise
+    .split(" ")
+    .filter(Boolean)
+    .filter((token, index) => index === 0 || !STORE_NUMBER.test(token));
+  // Only known cities, states and country codes are dropped; suburbs are left for aliases in merchants.yml.
+  while (tokens.length > 1 && LOCATION_SUFFIXES.has(tokens[tokens.length - 1].toLowerCase())) {
+    tokens.pop();
+  }
+  return tokens.join(" ") || merchant.trim();
+}
+
+export function hashString(input: string, prefix = "tx"): string {
+  let hash = 0;
+  for (let i = 0; i < input.length; i += 1) {
+    hash = (hash * 31 + input.charCodeAt(i)) >>> 0;
+  }
+  return `${prefix}_${hash.toString(16).padStart(8, "0")}`;
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map((item) => item.trim());
+}
+
+function compileRule(target: string, index: number, rawRule: unknown, order: number): CompiledRule {
+  const ruleId = `${target}#${index + 1}`;
+  const result = ruleEntrySchema.safeParse(rawRule);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "rule"}: ${issue.message}`);
+    throw new Error(`Invalid rule ${ruleId}: ${issues.join("; ")}`);
+  }
+
+  const rule = typeof result.data === "string" ? { contains: result.data } : result.data;
+  const needle = rule.contains === undefined ? null : normalizeText(rule.contains);
+  let pattern: RegExp | null = null;
+  if (rule.regex !== undefined) {
+    try {
+      pattern = new RegExp(rule.regex, "i");
+    } catch {
+      throw new Error(`Invalid rule ${ruleId}: regex does not compile: ${rule.regex}`);
+    }
+  }
+  const accounts = toList(rule.account);
+  const sourceCategories = toList(rule.sourceCategory).map((value) => value.toUpperCase());
+
+  const conditions: string[] = [];
+  if (needle !== null) {
+    conditions.push(needle);
+  }
+  if (pattern) {
+    conditions.push(`/${rule.regex}/`);
+  }
+  if (rule.amount) {
+    conditions.push(`amount=${rule.amount.min ?? ""}..${rule.amount.max ?? ""}`);
+  }
+  if (rule.direction) {
+    conditions.push(rule.direction);
+  }
+  if (accounts.length > 0) {
+    conditions.push(`account=${accounts.join(",")}`);
+  }
+  if (sourceCategories.length > 0) {
+    conditions.push(`sourceCategory=${sourceCategories.join(",")}`);
+  }
+  if (rule.date) {
+    conditions.push(`date=${rule.date.from ?? ""}..${rule.date.to ?? ""}`);
+  }
+
+  return {
+    target,
+    label: `${ruleId}:${rule.name ?? conditions.join(" ")}`,
+    needle,
+    priority: rule.priority ?? 0,
+    order,
+    test(transaction) {
+      const absoluteAmount = Math.abs(transaction.amount);
+      return (
+        (needle === null || transaction.narrativeNormalized.includes(needle)) &&
+        (pattern === null || pattern.test(transaction.narrativeNormalized)) &&
+        (rule.amount?.min === undefined || absoluteAmount >= rule.amount.min) &&
+        (rule.amount?.max === undefined || absoluteAmount <= rule.amount.max) &&
+        (rule.direction === undefined || transaction.direction === rule.direction) &&
+        (accounts.length === 0 || accounts.includes(transaction.accountId)) &&
+        (sourceCategories.length === 0 || sourceCategories.includes(transaction.sourceCategory.toUpperCase())) &&
+        (rule.date?.from === undefined || transaction.date >= rule.date.from) &&
+        (rule.date?.to === undefined || transaction.date <= rule.date.to)
+      );
+    }
+  };
+}
+
+export function compileRules(rulesByTarget: Record<string, unknown[] | null> | undefined): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  for (const [target, entries] of Object.entries(rulesByTarget ?? {})) {
+    (entries ?? []).forEach((entry, index) => {
+      compiled.push(compileRule(target, index, entry, compiled.length));
+    });
+  }
+  // Higher priority first; equal priorities keep their order in the YAML file.
+  return compiled.sort((a, b) => b.priority - a.priority || a.order - b.order);
+}
+
+export function parseSplitShares(id: string, rawShares: Record<string, unknown> | null): SplitShare[] {
+  const shares = Object.entries(rawShares ?? {}).map(([category, rawShare]): SplitShare => {
+    const result = splitShareSchema.safeParse(rawShare);
+    if (!result.success) {
+      throw new Error(`Invalid split for ${id}: ${category}: ${result.error.issues[0].message}`);
+    }
+    const value = result.data;
+    return typeof value === "number"
+      ? { category: category.trim(), amount: value, percent: null }
+      : { category: category.trim(), amount: null, percent: Number.parseFloat(value) };
+  });
+  if (shares.length < 2) {
+    throw new Error(`Invalid split for ${id}: list at least two categories`);
+  }
+  return shares;
+}
+
+function allocateCents(total: number, weights: number[]): number[] {
+  const cents = Math.round(Math.abs(total) * 100);
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map((weight) => (cents * weight) / weightTotal);
+  const allocated = exact.map(Math.floor);
+  // Largest remainder first, so the rounded shares still add up to the total to the cent.
+  const order = exact.map((value, index) => ({ index, remainder: value - Math.floor(value) })).sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; i < cents - allocated.reduce((sum, value) => sum + value, 0); i += 1) {
+    allocated[order[i % order.length].index] += 1;
+  }
+  const sign = total < 0 ? -1 : 1;
+  return allocated.map((value) => (sign * value) / 100);
+}
+
+// Shares are checked against the original amount (what the receipt says), then spread over the converted amount.
+export function allocateSplit(
+  transaction: Pick<NormalizedTransaction, "id" | "amount" | "originalAmount">,
+  shares: SplitShare[]
+): Array<Omit<Allocation, "group">> {
+  const originalTotal = Math.abs(transaction.originalAmount);
+  const values = shares.map((share) => share.amount ?? ((share.percent ?? 0) / 100) * originalTotal);
+  const sum = values.reduce((total, value) => total + value, 0);
+  if (Math.abs(sum - originalTotal) > 0.005) {
+    throw new Error(`Split for ${transaction.id} adds up to ${sum.toFixed(2)}, not ${originalTotal.toFixed(2)}`);
+  }
+
+  const amounts = allocateCents(transaction.amount, values);
+  const originalAmounts = allocateCents(transaction.originalAmount, values);
+  return shares.map((share, index) => ({
+    category: share.category,
+    amount: amounts[index],
+    originalAmount: originalAmounts[index]
+  }));
+}
+
+// One row per allocation (ids suffixed `#1`, `#2`, ...) so per-category totals count each share; unsplit rows pass through.
+export function expandAllocations<T extends SpendFields & { id: string; allocations?: Allocation[] | null }>(
+  transactions: T[]
+): T[] {
+  return transactions.flatMap((transaction) =>
+    transaction.allocations
+      ? transaction.allocations.map((allocation, index) => ({
+          ...transaction,
+          id: `${transaction.id}#${index + 1}`,
+          category: allocation.category,
+          group: allocation.group,
+          amount: allocation.amount,
+          originalAmount: allocation.originalAmount,
+          allocations: null
+        }))
+      : [transaction]
+  );
+}
+
+function parseTagOverrides(section: string, entries: Record<string, unknown> | undefined): Array<[string, string[]]> {
+  return Object.entries(entries ?? {}).map(([key, rawTags]) => {
+    const result = tagListSchema.safeParse(rawTags);
+    if (!result.success) {
+      throw new Error(`Invalid ${section}.${key}: ${result.error.issues[0].message}`);
+    }
+    return [key, result.data];
+  });
+}
+
+export function buildMerchantResolver(merchantsFile: MerchantsFile): MerchantResolver {
+  let aliasRules: CompiledRule[];
+  try {
+    aliasRules = compileRules(merchantsFile.merchants);
+  } catch (error) {
+    throw new Error(`Merchant aliases: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    aliasRules,
+
+    merchantFor(transaction) {
+      const alias = aliasRules.find((rule) => rule.test(transaction));
+      if (alias) {
+        return { merchant: alias.target, reason: `alias:${alias.label}` };
+      }
+      const cleaned = cleanMerchantName(transaction.merchant);
+      return { merchant: cleaned, reason: cleaned === transaction.merchant.trim() ? "raw" : "cleanup" };
+    }
+  };
+}
+
+// The ledger keeps the merchant as imported, so aliases and cleanup are re-applied on every run like categories.
+export function resolveMerchants<T extends BaseTransaction>(
+  transactions: T[],
+  resolver: MerchantResolver
+): Array<T & Pick<NormalizedTransaction, "merchantRaw" | "merchantReason">> {
+  return transactions.map((transaction) => {
+    const resolved = resolver.merchantFor(transaction);
+    return { ...transaction, merchant: resolved.merchant, merchantRaw: transaction.merchant, merchantReason: resolved.reason };
+  });
+}
+
+export function buildCategoryMatcher(rulesFile: CategoryRulesFile, overridesFile: OverridesFile): CategoryMatcher {
+  const overridesById = Object.entries(overridesFile.overrides ?? {}).map(([id, category]) => [id.trim(), category.trim()]);
+  const narrativeOverrides = Object.entries(overridesFile.narrative_contains ?? {}).map(([needle, category]) => [
+    normalizeText(needle),
+    category.trim()
+  ]);
+  const categoryRules = compileRules(rulesFile.rules);
+  const splitsById = new Map(
+    Object.entries(overridesFile.splits ?? {}).map(([id, rawShares]) => [id.trim(), parseSplitShares(id.trim(), rawShares)])
+  );
+
+  const tagsById = new Map(parseTagOverrides("tags", overridesFile.tags).map(([id, tags]) => [id.trim(), tags]));
+  const narrativeTags = parseTagOverrides("narrative_tags", overridesFile.narrative_tags).map(
+    ([needle, tags]): [string, string[]] => [normalizeText(needle), tags]
+  );
+  const notesById = new Map(Object.entries(overridesFile.notes ?? {}).map(([id, note]) => [id.trim(), String(note).trim()]));
+  const narrativeNotes = Object.entries(overridesFile.narrative_notes ?? {}).map(([needle, note]) => [
+    normalizeText(needle),
+    String(note).trim()
+  ]);
+
+  const groupOverridesById = Object.entries(overridesFile.group_overrides ?? {}).map(([id, group]) => [id.trim(), group.trim()]);
+  const groupNarrativeOverrides = Object.entries(overridesFile.group_narrative_contains ?? {}).map(([needle, group]) => [
+    normalizeText(needle),
+    group.trim()
+  ]);
+  const groupRules = compileRules(rulesFile.group_rules);
+  const groupByCategory = new Map<string, string>();
+  for (const [group, categories] of Object.entries(rulesFile.groups ?? {})) {
+    for (const category of categories) {
+      // First declaration wins so a category listed under two groups stays stable.
+      if (!groupByCategory.has(category.trim())) {
+        groupByCategory.set(category.trim(), group);
+      }
+    }
+  }
+
+  return {
+    categoryRules,
+    groupRules,
+
+    categoryFor(transaction) {
+      const idOverride = overridesById.find(([id]) => id === transaction.id);
+      if (idOverride) {
+        return { category: idOverride[1], reason: "override:id" };
+      }
+
+      const narrativeOverride = narrativeOverrides.find(([needle]) => transaction.narrativeNormalized.includes(needle));
+      if (narrativeOverride) {
+        return { category: narrativeOverride[1], reason: `override:narrative:${narrativeOverride[0]}` };
+      }
+
+      const matchedRule = categoryRules.find((rule) => rule.test(transaction));
+      if (matchedRule) {
+        return { category: matchedRule.target, reason: `rule:${matchedRule.label}` };
+      }
+
+      if (transaction.direction === "credit") {
+        return { category: "Income", reason: "fallback:credit" };
+      }
+
+      if (transaction.sourceCategory.toUpperCase() === "INT") {
+        return { category: "Interest", reason: "fallback:sourceCategory=INT" };
+      }
+
+      return { category: "Uncategorized", reason: "fallback:uncategorized" };
+    },
+
+    splitFor(transaction) {
+      return splitsById.get(transaction.id) ?? null;
+    },
+
+    // Unlike categories, tags accumulate: every matching id and narrative entry contributes.
+    annotationsFor(transaction) {
+      const tags = [
+        ...(tagsById.get(transaction.id) ?? []),
+        ...narrativeTags.filter(([needle]) => transaction.narrativeNormalized.includes(needle)).flatMap(([, entryTags]) => entryTags)
+      ];
+      const note =
+        notesById.get(transaction.id) ??
+        narrativeNotes.find(([needle]) => transaction.narrativeNormalized.includes(needle))?.[1] ??
+        null;
+      return { tags: [...new Set(tags)], note: note || null };
+    },
+
+    groupFor(transaction) {
+      const idOverride = groupOverridesById.find(([id]) => id === transaction.id);
+      if (idOverride) {
+        return { group: idOverride[1], reason: "override:id" };
+      }
+
+      const narrativeOverride = groupNarrativeOverrides.find(([needle]) => transaction.narrativeNormalized.includes(needle));
+      if (narrativeOverride) {
+        return { group: narrativeOverride[1], reason: `override:narrative:${narrativeOverride[0]}` };
+      }
+
+      const matchedRule = groupRules.find((rule) => rule.test(transaction));
+      if (matchedRule) {
+        return { group: matchedRule.target, reason: `rule:${matchedRule.label}` };
+      }
+
+      const mappedGroup = groupByCategory.get(transaction.category);
+      if (mappedGroup) {
+        return { group: mappedGroup, reason: `category:${transaction.category}` };
+      }
+
+      // Ungrouped categories become their own group so the Sankey layer stays complete.
+      return { group: transaction.category, reason: "fallback:category" };
+    }
+  };
+}
+
+export function loadBankProfiles(profilesFile: ProfilesFile): BankProfile[] {
+  const declared = Object.entries(profilesFile.profiles ?? {});
+  const declaredNames = new Set(declared.map(([name]) => name));
+  // Profiles from the YAML file come first so they win auto-detection ties and can replace built-ins by name.
+  const builtIns = Object.entries(BUILT_IN_PROFILES).filter(([name]) => !declaredNames.has(name));
+
+  return [...declared, ...builtIns].map(([name, rawProfile]) => {
+    const result = bankProfileSchema.safeParse(rawProfile);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "profile"}: ${issue.message}`);
+      throw new Error(`Invalid bank profile "${name}": ${issues.join("; ")}`);
+    }
+
+    const merchantPrefixes = result.data.merchantPrefixes.map((pattern) => {
+      try {
+        return new RegExp(pattern, "i");
+      } catch {
+        throw new Error(`Invalid merchant prefix in bank profile "${name}": ${pattern}`);
+      }
+    });
+
+    return { ...result.data, name, merchantPrefixes };
+  });
+}
+
+function selectBankProfile(headers: string[], profiles: BankProfile[], forcedProfile: string | null): BankProfile {
+  if (forcedProfile) {
+    const profile = profiles.find((candidate) => candidate.name === forcedProfile);
+    if (!profile) {
+      throw new Error(`Unknown bank profile: ${forcedProfile}. Available: ${profiles.map((candidate) => candidate.name).join(", ")}`);
+    }
+    return profile;
+  }
+
+  const headerSet = new Set(headers);
+  let best: { profile: BankProfile; score: number } | null = null;
+
+  for (const profile of profiles) {
+    const { account, date, narrative, debit, credit, amount, balance, category, serial, currency } = profile.columns;
+    const required = [account, date, narrative, debit, credit, amount].filter((column): column is string => Boolean(column));
+    if (!required.every((column) => headerSet.has(column))) {
+      continue;
+    }
+
+    // Prefer the profile that explains the most columns of this export.
+    const optionalMatches = [balance, category, serial, currency].filter((column) => column && headerSet.has(column)).length;
+    const score = required.length + optionalMatches;
+    if (!best || score > best.score) {
+      best = { profile, score };
+    }
+  }
+
+  if (!best) {
+    throw new Error(`No bank profile matches CSV header: ${headers.join(", ")}. Pass --profile or declare one in the profiles file.`);
+  }
+  return best.profile;
+}
+
+// Maps each BankRow field to the profile column it is read from, so rejections can name the CSV header.
+const BANK_ROW_COLUMNS: Record<keyof BankRow, keyof BankProfile["columns"]> = {
+  account: "account",
+  date: "date",
+  narrative: "narrative",
+  debitAmount: "debit",
+  creditAmount: "credit",
+  amount: "amount",
+  balance: "balance",
+  sourceCategory: "category",
+  serial: "serial",
+  currency: "currency"
+};
+
+function bankRowSchemaFor(profile: BankProfile) {
+  const amountFields = profile.columns.amount ? (["amount"] as const) : (["debitAmount", "creditAmount"] as const);
+
+  return bankRowSchema.superRefine((row, ctx) => {
+    if (!row.date.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["date"], message: "expected a date" });
+    } else {
+      try {
+        parseDate(row.date, profile.dateFormat);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["date"], message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (!row.narrative.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["narrative"], message: "expected a narrative" });
+    }
+    for (const field of [...amountFields, "balance"] as const) {
+      const value = row[field]?.replace(/[$,\s]/g, "");
+      if (value && !Number.isFinite(Number(value))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "expected a number" });
+      }
+    }
+    if (row.currency?.trim() && !currencyCodeSchema.safeParse(row.currency).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["currency"], message: "expected a three-letter currency code" });
+    }
+  });
+}
+
+// Malformed rows are collected rather than thrown, so one bad line doesn't block the rest of an export.
+export function parseCsvRows(
+  csvText: string,
+  profiles: BankProfile[],
+  forcedProfile: string | null
+): { profile: BankProfile; rows: BankRow[]; rejections: RowRejection[] } {
+  const parsed = Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    transformHeader: (header) => header.trim()
+  });
+
+  const fileError = parsed.errors.find((error) => error.row === undefined);
+  if (fileError) {
+    throw new Error(`CSV parse error: ${fileError.message}`);
+  }
+
+  const profile = selectBankProfile(parsed.meta.fields ?? [], profiles, forcedProfile);
+  const { columns } = profile;
+  const column = (row: Record<string, string>, name: string | undefined) => (name ? row[name] : undefined);
+  const schema = bankRowSchemaFor(profile);
+  const parseErrors = new Map<number, Papa.ParseError[]>();
+  for (const error of parsed.errors) {
+    parseErrors.set(error.row ?? -1, [...(parseErrors.get(error.row ?? -1) ?? []), error]);
+  }
+
+  const rows: BankRow[] = [];
+  const rejections: RowRejection[] = [];
+  // The header is line 1; quoted values with embedded newlines push later rows down.
+  let line = 2;
+  parsed.data.forEach((raw, index) => {
+    const rowLine = line;
+    const values = Object.values(raw).flat();
+    line += 1 + values.reduce((sum, value) => sum + (String(value ?? "").match(/\n/g)?.length ?? 0), 0);
+    if (values.every((value) => String(value ?? "").trim() === "")) {
+      return;
+    }
+
+    const errors = parseErrors.get(index);
+    if (errors) {
+      rejections.push(
+        ...errors.map((error) => ({ line: rowLine, field: null, column: null, value: null, code: error.code, message: error.message }))
+      );
+      return;
+    }
+
+    const candidate = {
+      account: column(raw, columns.account) ?? profile.accountId ?? profile.name,
+      date: column(raw, columns.date),
+      narrative: column(raw, columns.narrative),
+      debitAmount: column(raw, columns.debit),
+      creditAmount: column(raw, columns.credit),
+      amount: column(raw, columns.amount),
+      balance: column(raw, columns.balance),
+      sourceCategory: column(raw, columns.category),
+      serial: column(raw, columns.serial),
+      currency: column(raw, columns.currency)
+    };
+    // Footer and spacer rows carry no amount and are dropped quietly; a row with one is a transaction and must parse.
+    if (![candidate.amount, candidate.debitAmount, candidate.creditAmount].some((value) => value?.trim())) {
+      return;
+    }
+
+    const result = schema.safeParse(candidate);
+    if (result.success) {
+      rows.push(result.data);
+      return;
+    }
+    rejections.push(
+      ...result.error.issues.map((issue) => {
+        const field = issue.path[0] as keyof BankRow | undefined;
+        return {
+          line: rowLine,
+          field: field ?? null,
+          column: (field && columns[BANK_ROW_COLUMNS[field]]) ?? null,
+          value: field ? (candidate[field] ?? null) : null,
+          code: issue.code,
+          message: issue.message
+        };
+      })
+    );
+  });
+
+  return { profile, rows, rejections };
+}
+
+function splitAmounts(row: BankRow, profile: BankProfile): { debitAmount: number; creditAmount: number } {
+  if (profile.columns.amount) {
+    const signed = parseMoney(row.amount);
+    const debitValue = profile.amountSign === "debit-negative" ? -signed : signed;
+    return { debitAmount: Math.max(debitValue, 0), creditAmount: Math.max(-debitValue, 0) };
+  }
+
+  return {
+    debitAmount: Math.abs(parseMoney(row.debitAmount)),
+    creditAmount: Math.abs(parseMoney(row.creditAmount))
+  };
+}
+
+export function normalizeTransactions(rows: BankRow[], profile: BankProfile): BaseTransaction[] {
+  const occurrences = new Map<string, number>();
+
+  return rows.map((row) => {
+    const { debitAmount, creditAmount } = splitAmounts(row, profile);
+    const amount = debitAmount > 0 ? debitAmount : creditAmount > 0 ? -creditAmount : 0;
+    const direction: Direction = debitAmount > 0 ? "debit" : creditAmount > 0 ? "credit" : "neutral";
+    const narrative = row.narrative.trim();
+    const narrativeNormalized = normalizeText(narrative);
+    const contentSignature = [
+      row.date.trim(),
+      row.account.trim(),
+      narrativeNormalized,
+      debitAmount.toFixed(2),
+      creditAmount.toFixed(2)
+    ].join("|");
+    // Identical rows within one export are told apart by their ordinal, not their row position,
+    // so the same row in two overlapping exports hashes to the same id.
+    const occurrence = occurrences.get(contentSignature) ?? 0;
+    occurrences.set(contentSignature, occurrence + 1);
+    const id = hashString(`${contentSignature}|${row.serial?.trim() || String(occurrence)}`);
+
+    return {
+      id,
+      date: parseDate(row.date, profile.dateFormat),
+      accountId: row.account.trim(),
+      narrative,
+      narrativeNormalized,
+      merchant: inferMerchant(narrative, profile.merchantPrefixes),
+      debitAmount,
+      creditAmount,
+      amount,
+      currency: (row.currency?.trim() || profile.currency || DEFAULT_CURRENCY).toUpperCase(),
+      direction,
+      balance: row.balance ? parseMoney(row.balance) : null,
+      sourceCategory: (row.sourceCategory ?? "").trim()
+    };
+  });
+}
+
+export function loadFxRates(fxRatesFile: FxRatesFile, reportingCurrency: string): FxTable {
+  const result = fxRatesSchema.safeParse(fxRatesFile.rates ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "rates"}: ${issue.message}`);
+    throw new Error(`Invalid FX rates: ${issues.join("; ")}`);
+  }
+  return {
+    reportingCurrency: reportingCurrency.toUpperCase(),
+    rates: new Map(
+      Object.entries(result.data).map(([currency, byDate]) => [
+        currency,
+        Object.entries(byDate)
+          .map(([date, rate]) => ({ date, rate }))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      ])
+    )
+  };
+}
+
+// `date,currency,rate` rows, one per currency and date, as an alternative to the YAML layout.
+export function parseFxRatesCsv(csvText: string): FxRatesFile {
+  const parsed = Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase()
+  });
+  if (parsed.errors.length > 0) {
+    const firstError = parsed.errors[0];
+    throw new Error(`FX rates CSV parse error at row ${firstError.row ?? "unknown"}: ${firstError.message}`);
+  }
+
+  const rates: Record<string, Record<string, number>> = {};
+  parsed.data.forEach((row, index) => {
+    const rate = Number(row.rate?.trim());
+    if (!row.date?.trim() || !row.currency?.trim() || !Number.isFinite(rate)) {
+      throw new Error(`FX rates CSV row ${index + 1} needs date, currency and a numeric rate`);
+    }
+    const currency = row.currency.trim().toUpperCase();
+    rates[currency] = { ...rates[currency], [row.date.trim()]: rate };
+  });
+  return { rates };
+}
+
+// Column order for every CSV export of categorized transactions: `npm run export` and the web app's download.
+export const TRANSACTION_CSV_COLUMNS = [
+  "id",
+  "date",
+  "accountId",
+  "merchant",
+  "merchantRaw",
+  "merchantReason",
+  "narrative",
+  "amount",
+  "currency",
+  "originalAmount",
+  "fxRate",
+  "direction",
+  "category",
+  "categoryReason",
+  "group",
+  "groupReason",
+  "linkId",
+  "linkType",
+  "tags",
+  "note"
+] as const satisfies ReadonlyArray<keyof NormalizedTransaction>;
+
+export type TransactionCsvColumn = (typeof TRANSACTION_CSV_COLUMNS)[number];
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : Array.isArray(value) ? value.join(" ") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Columns are optional so outputs written before a column existed still export, with the cell left blank.
+export function transactionsToCsv(transactions: Array<Partial<Record<TransactionCsvColumn, unknown>>>): string {
+  const lines = [TRANSACTION_CSV_COLUMNS.join(",")];
+  for (const transaction of transactions) {
+    lines.push(TRANSACTION_CSV_COLUMNS.map((column) => csvCell(transaction[column])).join(","));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// The latest rate on or before the date; transactions older than the whole table use its earliest rate.
+export function fxRateFor(fx: FxTable, currency: string, date: string): number {
+  if (currency === fx.reportingCurrency) {
+    return 1;
+  }
+  const rates = fx.rates.get(currency);
+  if (!rates || rates.length === 0) {
+    throw new Error(`No FX rate from ${currency} to ${fx.reportingCurrency}. Add one to the FX rates file.`);
+  }
+  let match = rates[0];
+  for (const entry of rates) {
+    if (entry.date > date) {
+      break;
+    }
+    match = entry;
+  }
+  return match.rate;
+}
+
+export function convertCurrencies(transactions: BaseTransaction[], fx: FxTable): ConvertedTransaction[] {
+  const round = (value: number) => Number(value.toFixed(2));
+  return transactions.map((transaction) => {
+    const fxRate = fxRateFor(fx, transaction.currency, transaction.date);
+    return {
+      ...transaction,
+      debitAmount: round(transaction.debitAmount * fxRate),
+      creditAmount: round(transaction.creditAmount * fxRate),
+      amount: round(transaction.amount * fxRate),
+      originalAmount: transaction.amount,
+      fxRate
+    };
+  });
+}
+
+// Unconverted transactions (e.g. in rule linting) are taken to already be in the reporting currency.
+export function categorizeTransactions(
+  transactions: Array<
+    BaseTransaction & Partial<Pick<NormalizedTransaction, "originalAmount" | "fxRate" | "merchantRaw" | "merchantReason">>
+  >,
+  matcher: CategoryMatcher
+): NormalizedTransaction[] {
+  return transactions.map((baseTransaction) => {
+    const splitShares = matcher.splitFor(baseTransaction);
+    const categorization = splitShares ? { category: "Split", reason: "override:split" } : matcher.categoryFor(baseTransaction);
+    const categorizedTransaction: CategorizedTransaction = {
+      ...baseTransaction,
+      originalAmount: baseTransaction.originalAmount ?? baseTransaction.amount,
+      fxRate: baseTransaction.fxRate ?? 1,
+      merchantRaw: baseTransaction.merchantRaw ?? baseTransaction.merchant,
+      merchantReason: baseTransaction.merchantReason ?? "raw",
+      category: categorization.category,
+      categoryReason: categorization.reason,
+      ...matcher.annotationsFor(baseTransaction)
+    };
+    const grouping = matcher.groupFor(categorizedTransaction);
+    const allocations = splitShares
+      ? allocateSplit(categorizedTransaction, splitShares).map((allocation) => ({
+          ...allocation,
+          group: matcher.groupFor({ ...categorizedTransaction, category: allocation.category }).group
+        }))
+      : null;
+
+    return {
+      ...categorizedTransaction,
+      group: grouping.group,
+      groupReason: grouping.reason,
+      linkId: null,
+      linkType: null,
+      allocations
+    };
+  });
+}
+
+export function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / 86_400_000);
+}
+
+function refundMerchantKey(merchant: string): string {
+  return normalizeText(merchant.replace(/\b(refund|reversal|reversed|return|rev)\b/gi, " "));
+}
+
+type DatedCandidate = {
+  transaction: NormalizedTransaction;
+  day: number;
+};
+
+// Buckets keep the date order they were built in, so scanning a window visits candidates as the full list would.
+function bucketBy(candidates: DatedCandidate[], keyOf: (transaction: NormalizedTransaction) => string) {
+  const buckets = new Map<string, DatedCandidate[]>();
+  for (const candidate of candidates) {
+    const key = keyOf(candidate.transaction);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(candidate);
+    } else {
+      buckets.set(key, [candidate]);
+    }
+  }
+  return buckets;
+}
+
+// Candidates dated from `fromDay` to `toDay`, by binary search on the date-ordered bucket.
+function* withinDays(bucket: DatedCandidate[] | undefined, fromDay: number, toDay: number): Generator<DatedCandidate> {
+  if (!bucket) {
+    return;
+  }
+  let low = 0;
+  let high = bucket.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (bucket[middle].day < fromDay) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  for (let index = low; index < bucket.length && bucket[index].day <= toDay; index += 1) {
+    yield bucket[index];
+  }
+}
+
+export function linkTransactions(
+  transactions: NormalizedTransaction[],
+  matcher: CategoryMatcher,
+  windows: LinkWindows
+): NormalizedTransaction[] {
+  const linked = transactions.map((transaction) => ({ ...transaction }));
+  // Stable date order keeps pairing deterministic regardless of file order.
+  const byDate = [...linked]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+    .map((transaction) => ({ transaction, day: dayNumber(transaction.date) }));
+  // An id override or split is an explicit decision, so those rows never get paired.
+  const isCandidate = (transaction: NormalizedTransaction) =>
+    transaction.linkId === null && transaction.categoryReason !== "override:id" && transaction.categoryReason !== "override:split";
+  const debits = byDate.filter(({ transaction }) => transaction.direction === "debit");
+  const credits = byDate.filter(({ transaction }) => transaction.direction === "credit");
+
+  // Transfers pair on the exact amount, so only credits of that amount are ever compared.
+  const creditsByAmount = bucketBy(credits, (transaction) => transaction.creditAmount.toFixed(2));
+  for (const { transaction: debit, day } of debits) {
+    if (!isCandidate(debit)) {
+      continue;
+    }
+
+    let best: DatedCandidate | null = null;
+    const window = withinDays(
+      creditsByAmount.get(debit.debitAmount.toFixed(2)),
+      day - windows.transferWindowDays,
+      day + windows.transferWindowDays
+    );
+    for (const candidate of window) {
+      if (!isCandidate(candidate.transaction) || candidate.transaction.accountId === debit.accountId) {
+        continue;
+      }
+      if (!best || Math.abs(candidate.day - day) < Math.abs(best.day - day)) {
+        best = candidate;
+      }
+    }
+
+    if (!best) {
+      continue;
+    }
+
+    const linkId = hashString(`${debit.id}|${best.transaction.id}`, "link");
+    for (const leg of [debit, best.transaction]) {
+      leg.linkId = linkId;
+      leg.linkType = "transfer";
+      leg.category = "Transfers";
+      leg.categoryReason = "match:transfer";
+      const grouping = matcher.groupFor(leg);
+      leg.group = grouping.group;
+      leg.groupReason = grouping.reason;
+    }
+  }
+
+  // Refunds may be partial, so they pair on the merchant instead and check the amount per candidate.
+  const debitsByMerchant = bucketBy(debits, (transaction) => refundMerchantKey(transaction.merchant));
+  for (const { transaction: credit, day } of credits) {
+    if (!isCandidate(credit)) {
+      continue;
+    }
+
+    let best: NormalizedTransaction | null = null;
+    const window = withinDays(debitsByMerchant.get(refundMerchantKey(credit.merchant)), day - windows.refundWindowDays, day);
+    for (const { transaction: debit } of window) {
+      if (!isCandidate(debit) || debit.debitAmount + 0.005 < credit.creditAmount) {
+        continue;
+      }
+      // Prefer a full refund of the same amount, then the most recent purchase.
+      const isExact = debit.debitAmount.toFixed(2) === credit.creditAmount.toFixed(2);
+      const bestIsExact = best !== null && best.debitAmount.toFixed(2) === credit.creditAmount.toFixed(2);
+      if (!best || (isExact && !bestIsExact) || (isExact === bestIsExact && debit.date >= best.date)) {
+        best = debit;
+      }
+    }
+
+    if (!best) {
+      continue;
+    }
+
+    // The refund takes on the purchase's category and group so the two net out in spend totals.
+    const linkId = hashString(`${best.id}|${credit.id}`, "link");
+    best.linkId = linkId;
+    best.linkType = "refund";
+    credit.linkId = linkId;
+    credit.linkType = "refund";
+    credit.category = best.category;
+    credit.categoryReason = `match:refund:${best.id}`;
+    credit.group = best.group;
+    credit.groupReason = `match:refund:${best.id}`;
+  }
+
+  return linked;
+}
+
+function categoryShares(transaction: CategorizedSnapshot): CategoryShare[] | null {
+  return transaction.allocations?.map((allocation) => ({ category: allocation.category, amount: allocation.amount })) ?? null;
+}
+
+function sameShares(left: CategoryShare[] | null, right: CategoryShare[] | null): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+// Spend per real category: a split counts under each share's category, never under "Split".
+function spendByCategory(transaction: CategorizedSnapshot): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const share of expandAllocations([transaction]).filter(isSpendTransaction)) {
+    totals.set(share.category, (totals.get(share.category) ?? 0) + share.amount);
+  }
+  return totals;
+}
+
+function netSpendChanges(entries: Array<[string, number]>): CategorySpendChange[] {
+  const totals = new Map<string, number>();
+  for (const [category, change] of entries) {
+    totals.set(category, (totals.get(category) ?? 0) + change);
+  }
+  return [...totals.entries()]
+    .map(([category, change]) => ({ category, change: roundCents(change) }))
+    .filter((entry) => Math.abs(entry.change) >= 0.005)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.category.localeCompare(b.category));
+}
+
+// Transactions present in both runs whose category, or split shares, moved; new and dropped ids are not changes.
+function diffCategories(previous: CategorizedSnapshot[], next: NormalizedTransaction[]): TransactionCategoryChange[] {
+  const previousById = new Map(previous.map((transaction) => [transaction.id, transaction]));
+  return next.flatMap((transaction) => {
+    const before = previousById.get(transaction.id);
+    if (!before) {
+      return [];
+    }
+    const previousAllocations = categoryShares(before);
+    const allocations = categoryShares(transaction);
+    if (before.category === transaction.category && sameShares(previousAllocations, allocations)) {
+      return [];
+    }
+    return [
+      {
+        id: transaction.id,
+        date: transaction.date,
+        merchant: transaction.merchant,
+        amount: transaction.amount,
+        previousCategory: before.category,
+        category: transaction.category,
+        previousAllocations,
+        allocations,
+        previousReason: before.categoryReason,
+        categoryReason: transaction.categoryReason,
+        spendChanges: netSpendChanges([
+          ...[...spendByCategory(before)].map(([category, spend]): [string, number] => [category, -spend]),
+          ...spendByCategory(transaction)
+        ])
+      }
+    ];
+  });
+}
+
+// `previous` is the last run's transactions.json; null when there is none, so nothing can have moved yet.
+export function buildCategoryChangeReport(
+  previous: CategorizedSnapshot[] | null,
+  next: NormalizedTransaction[]
+): CategoryChangeReport {
+  const changes = diffCategories(previous ?? [], next);
+  const knownIds = new Set((previous ?? []).map((transaction) => transaction.id));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    hasBaseline: previous !== null,
+    summary: {
+      comparedCount: next.filter((transaction) => knownIds.has(transaction.id)).length,
+      changedCount: changes.length
+    },
+    changes,
+    spendChanges: netSpendChanges(
+      changes.flatMap((change) => change.spendChanges.map((entry): [string, number] => [entry.category, entry.change]))
+    )
+  };
+}
+
+export function isSpendTransaction(transaction: SpendFields): boolean {
+  if (transaction.linkType === "transfer" || EXCLUDED_SPEND_CATEGORIES.has(transaction.category)) {
+    return false;
+  }
+  if (transaction.direction === "debit") {
+    return transaction.amount > 0;
+  }
+  // Linked refunds count as negative spend against the original purchase.
+  return transaction.direction === "credit" && transaction.linkType === "refund";
+}
+
+export function loadBudgets(budgetsFile: BudgetsFile): Budget[] {
+  const scopes = [
+    ["category", budgetsFile.categories],
+    ["group", budgetsFile.groups]
+  ] as const;
+
+  return scopes.flatMap(([scope, entries]) =>
+    Object.entries(entries ?? {}).map(([name, rawBudget]) => {
+      const result = budgetEntrySchema.safeParse(rawBudget);
+      if (!result.success) {
+        const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "budget"}: ${issue.message}`);
+        throw new Error(`Invalid ${scope} budget "${name}": ${issues.join("; ")}`);
+      }
+      const budget = typeof result.data === "number" ? { amount: result.data, period: "month" as const } : result.data;
+      return { scope, name: name.trim(), ...budget };
+    })
+  );
+}
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / 86_400_000);
+}
+
+function monthEnd(date: string): string {
+  const [year, month] = date.split("-").map((part) => Number.parseInt(part, 10));
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+// Whole calendar months scale exactly (an annual budget is twelve equal months); other windows are prorated by day.
+export function budgetLimit(budget: Budget, from: string, to: string): number {
+  const monthlyAmount = budget.period === "year" ? budget.amount / 12 : budget.amount;
+  if (from.endsWith("-01") && monthEnd(to) === to) {
+    const months =
+      (Number.parseInt(to.slice(0, 4), 10) - Number.parseInt(from.slice(0, 4), 10)) * 12 +
+      Number.parseInt(to.slice(5, 7), 10) -
+      Number.parseInt(from.slice(5, 7), 10) +
+      1;
+    return monthlyAmount * months;
+  }
+  return (monthlyAmount * 12 * (dayNumber(to) - dayNumber(from) + 1)) / 365.25;
+}
+
+export function evaluateBudgets(
+  transactions: SpendFields[],
+  budgets: Budget[],
+  window: { from: string; to: string; asOf: string }
+): BudgetStatus[] {
+  const spend = transactions.filter(
+    (transaction) => isSpendTransaction(transaction) && transaction.date >= window.from && transaction.date <= window.to
+  );
+  const totalDays = dayNumber(window.to) - dayNumber(window.from) + 1;
+  const elapsedDays = dayNumber(window.asOf) - dayNumber(window.from) + 1;
+  const inProgress = elapsedDays > 0 && elapsedDays < totalDays;
+
+  return budgets.map((budget) => {
+    const actual = spend
+      .filter((transaction) => (budget.scope === "category" ? transaction.category : transaction.group) === budget.name)
+      .reduce((sum, transaction) => sum + transaction.amount, 0);
+    const limit = budgetLimit(budget, window.from, window.to);
+    return {
+      ...budget,
+      from: window.from,
+      to: window.to,
+      limit: Number(limit.toFixed(2)),
+      actual: Number(actual.toFixed(2)),
+      remaining: Number((limit - actual).toFixed(2)),
+      projected: inProgress ? Number(((actual / elapsedDays) * totalDays).toFixed(2)) : null,
+      overBudget: actual > limit + 0.005
+    };
+  });
+}
+
+// Monthly budgets are checked against the latest month in the data and annual ones against the latest year.
+export function currentBudgetStatus(transactions: SpendFields[], budgets: Budget[]): BudgetStatus[] {
+  const asOf = transactions.reduce((latest, transaction) => (transaction.date > latest ? transaction.date : latest), "");
+  if (!asOf) {
+    return [];
+  }
+  const windows: Record<BudgetPeriod, { from: string; to: string; asOf: string }> = {
+    month: { from: `${asOf.slice(0, 7)}-01`, to: monthEnd(asOf), asOf },
+    year: { from: `${asOf.slice(0, 4)}-01-01`, to: `${asOf.slice(0, 4)}-12-31`, asOf }
+  };
+  return budgets.flatMap((budget) => evaluateBudgets(transactions, [budget], windows[budget.period]));
+}
+
+export function buildSankeyData(
+  transactions: NormalizedTransaction[],
+  budgets: Budget[] = [],
+  currency = DEFAULT_CURRENCY
+): SankeyData {
+  const spendTransactions = expandAllocations(transactions).filter(isSpendTransaction);
+  // Refunds are booked against the purchase's merchant so they net out on the same Sankey node.
+  const refundedPurchases = new Map(
+    transactions
+      .filter((transaction) => transaction.linkType === "refund" && transaction.direction === "debit")
+      .map((transaction) => [transaction.linkId, transaction])
+  );
+
+  const groupTotals = new Map<string, number>();
+  const categoryTotalsByGroup = new Map<string, Map<string, number>>();
+  const merchantTotalsByCategory = new Map<string, Map<string, number>>();
+
+  for (const transaction of spendTransactions) {
+    groupTotals.set(transaction.group, (groupTotals.get(transaction.group) ?? 0) + transaction.amount);
+
+    if (!categoryTotalsByGroup.has(transaction.group)) {
+      categoryTotalsByGroup.set(transaction.group, new Map<string, number>());
+    }
+    const categoryTotals = categoryTotalsByGroup.get(transaction.group);
+    if (!categoryTotals) {
+      continue;
+    }
+    categoryTotals.set(transaction.category, (categoryTotals.get(transaction.category) ?? 0) + transaction.amount);
+
+    if (!merchantTotalsByCategory.has(transaction.category)) {
+      merchantTotalsByCategory.set(transaction.category, new Map<string, number>());
+    }
+    const merchantTotals = merchantTotalsByCategory.get(transaction.category);
+    if (!merchantTotals) {
+      continue;
+    }
+    const merchant =
+      transaction.direction === "credit"
+        ? refundedPurchases.get(transaction.linkId)?.merchant ?? transaction.merchant
+        : transaction.merchant;
+    merchantTotals.set(merchant, (merchantTotals.get(merchant) ?? 0) + transaction.amount);
+  }
+
+  // Nodes are keyed by layer so a group, category and merchant can share a display name.
+  const nodes: SankeyNode[] = [{ name: "Total Spend" }];
+  const nodeIndex = new Map<string, number>([["total", 0]]);
+  const addNode = (key: string, name: string): number => {
+    const existing = nodeIndex.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+    nodeIndex.set(key, nodes.length);
+    nodes.push({ name });
+    return nodes.length - 1;
+  };
+
+  const links: SankeyLink[] = [];
+  // Fully refunded spend nets to zero and is left out rather than drawn as an empty link.
+  const hasSpend = ([, total]: [string, number]) => total > 0.005;
+  const sortedGroups = [...groupTotals.entries()].filter(hasSpend).sort(([a], [b]) => a.localeCompare(b));
+
+  for (const [group, groupTotal] of sortedGroups) {
+    const groupIndex = addNode(`group:${group}`, group);
+    links.push({ source: 0, target: groupIndex, value: Number(groupTotal.toFixed(2)) });
+
+    const categoryTotals = categoryTotalsByGroup.get(group);
+    if (!categoryTotals) {
+      continue;
+    }
+
+    const sortedCategories = [...categoryTotals.entries()].filter(hasSpend).sort(([a], [b]) => a.localeCompare(b));
+    for (const [category, categoryTotal] of sortedCategories) {
+      const categoryIndex = addNode(`category:${category}`, category);
+      links.push({ source: groupIndex, target: categoryIndex, value: Number(categoryTotal.toFixed(2)) });
+    }
+  }
+
+  // Merchant links hang off categories, which may span several groups after overrides.
+  const sortedMerchantCategories = [...merchantTotalsByCategory.entries()].sort(([a], [b]) => a.localeCompare(b));
+  for (const [category, merchants] of sortedMerchantCategories) {
+    const categoryIndex = nodeIndex.get(`category:${category}`);
+    if (categoryIndex === undefined) {
+      continue;
+    }
+
+    const sortedMerchants = [...merchants.entries()].filter(hasSpend).sort(([a], [b]) => a.localeCompare(b));
+    for (const [merchant, merchantTotal] of sortedMerchants) {
+      links.push({
+        source: categoryIndex,
+        target: addNode(`merchant:${merchant}`, merchant),
+        value: Number(merchantTotal.toFixed(2))
+      });
+    }
+  }
+
+  const totalSpend = [...groupTotals.values()].reduce((sum, value) => sum + value, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    currency,
+    nodes,
+    links,
+    summary: {
+      totalSpend: Number(totalSpend.toFixed(2)),
+      transactionCount: spendTransactions.length
+    },
+    budgets: currentBudgetStatus(expandAllocations(transactions), budgets)
+  };
+}
+
+// Charges of a similar amount (within 20% or $1 of the previous one) form a series, so a price rise continues it.
+function amountSeries(charges: NormalizedTransaction[]): NormalizedTransaction[][] {
+  const series: NormalizedTransaction[][] = [];
+  for (const charge of charges) {
+    const match = series.find((entries) => {
+      const previous = entries[entries.length - 1].amount;
+      return Math.abs(charge.amount - previous) <= Math.max(1, previous * 0.2);
+    });
+    if (match) {
+      match.push(charge);
+    } else {
+      series.push([charge]);
+    }
+  }
+  return series;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map((part) => Number.parseInt(part, 10));
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  // Clamp to the end of shorter months instead of rolling over (31 Jan -> 28 Feb).
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function nextChargeDate(date: string, cadence: RecurringCadence): string {
+  if (cadence === "monthly") {
+    return addMonths(date, 1);
+  }
+  if (cadence === "annual") {
+    return addMonths(date, 12);
+  }
+  const [year, month, day] = date.split("-").map((part) => Number.parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + (cadence === "weekly" ? 7 : 14))).toISOString().slice(0, 10);
+}
+
+// Finds charges that repeat at the same merchant for a similar amount on a regular weekly to annual cadence.
+export function detectRecurring(transactions: NormalizedTransaction[]): RecurringReport {
+  const asOf = transactions.reduce((latest, transaction) => (transaction.date > latest ? transaction.date : latest), "");
+  const chargesByMerchant = new Map<string, NormalizedTransaction[]>();
+  for (const transaction of transactions) {
+    if (transaction.direction !== "debit" || !isSpendTransaction(transaction)) {
+      continue;
+    }
+    const key = normalizeText(transaction.merchant);
+    chargesByMerchant.set(key, [...(chargesByMerchant.get(key) ?? []), transaction]);
+  }
+
+  const items: RecurringItem[] = [];
+  for (const [merchantKey, charges] of chargesByMerchant) {
+    const sorted = [...charges].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+    for (const series of amountSeries(sorted)) {
+      const intervals = series.slice(1).map((charge, index) => daysBetween(series[index].date, charge.date));
+      if (intervals.length === 0) {
+        continue;
+      }
+      const typicalInterval = median(intervals);
+      const spec = RECURRING_CADENCES.find((entry) => Math.abs(typicalInterval - entry.days) <= entry.tolerance);
+      // Allow the odd late or skipped charge, but most gaps have to fit the cadence.
+      const regular = spec
+        ? intervals.filter((interval) => Math.abs(interval - spec.days) <= spec.tolerance).length / intervals.length >= 0.75
+        : false;
+      if (!spec || !regular || series.length < spec.minOccurrences) {
+        continue;
+      }
+
+      const first = series[0];
+      const last = series[series.length - 1];
+      const nextExpectedDate = nextChargeDate(last.date, spec.cadence);
+      const priceChanges = series.slice(1).flatMap((charge, index) =>
+        Math.abs(charge.amount - series[index].amount) > 0.005
+          ? [{ date: charge.date, from: series[index].amount, to: charge.amount }]
+          : []
+      );
+
+      items.push({
+        id: hashString(`${merchantKey}|${spec.cadence}|${first.id}`, "rec"),
+        merchant: last.merchant,
+        category: last.category,
+        group: last.group,
+        cadence: spec.cadence,
+        occurrences: series.length,
+        firstDate: first.date,
+        lastDate: last.date,
+        nextExpectedDate,
+        amount: last.amount,
+        annualCost: Number((last.amount * spec.perYear).toFixed(2)),
+        priceChanges,
+        uncategorized: last.category === "Uncategorized",
+        stopped: daysBetween(nextExpectedDate, asOf) > spec.tolerance,
+        transactionIds: series.map((charge) => charge.id)
+      });
+    }
+  }
+
+  items.sort((a, b) => Number(a.stopped) - Number(b.stopped) || b.annualCost - a.annualCost || a.merchant.localeCompare(b.merchant));
+  const active = items.filter((item) => !item.stopped);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    asOf: asOf || null,
+    summary: {
+      activeCount: active.length,
+      activeAnnualCost: Number(active.reduce((sum, item) => sum + item.annualCost, 0).toFixed(2)),
+      uncategorizedCount: items.filter((item) => item.uncategorized).length,
+      stoppedCount: items.length - active.length
+    },
+    items
+  };
+}
+
+function roundCents(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+// Rows that go backwards against the direction their export runs in (bank exports are newest-first or oldest-first).
+function outOfOrderBreaks(rows: ReconcileRow[]): { breaks: ReconciliationBreak[]; descendingSources: Set<string> } {
+  const bySource = new Map<string, ReconcileRow[]>();
+  for (const row of rows) {
+    const key = `${row.source ?? ""}|${row.accountId}`;
+    bySource.set(key, [...(bySource.get(key) ?? []), row]);
+  }
+
+  const breaks: ReconciliationBreak[] = [];
+  const descendingSources = new Set<string>();
+  for (const [key, sourceRows] of bySource) {
+    const descending = sourceRows[0].date > sourceRows[sourceRows.length - 1].date;
+    if (descending) {
+      descendingSources.add(key);
+    }
+    let furthest = sourceRows[0].date;
+    for (const row of sourceRows) {
+      if (descending ? row.date > furthest : row.date < furthest) {
+        breaks.push({
+          kind: "out-of-order",
+          accountId: row.accountId,
+          transactionId: row.id,
+          date: row.date,
+          source: row.source ?? null,
+          previousDate: furthest,
+          expectedBalance: null,
+          actualBalance: row.balance,
+          difference: 0,
+          message: `${row.date} ${row.narrative} comes after ${furthest} in an export that runs ${descending ? "newest" : "oldest"} first`
+        });
+        continue;
+      }
+      furthest = row.date;
+    }
+  }
+  return { breaks, descendingSources };
+}
+
+function balanceBreak(
+  kind: Exclude<ReconciliationBreakKind, "out-of-order">,
+  row: ReconcileRow & { balance: number },
+  lastChecked: ReconcileRow,
+  expected: number
+): ReconciliationBreak {
+  const difference = kind === "duplicate" ? 0 : roundCents(expected - row.balance);
+  const messages: Record<typeof kind, string> = {
+    duplicate: `${row.date} ${row.narrative} (${row.amount.toFixed(2)}) repeats an earlier row with the same balance`,
+    gap: `${difference.toFixed(2)} unaccounted for between ${lastChecked.date} (${lastChecked.source}) and ${row.date} (${row.source}); no export covers the stretch in between`,
+    "missing-rows": `Expected balance ${expected.toFixed(2)} on ${row.date} but the export says ${row.balance.toFixed(2)}; ${difference.toFixed(2)} of rows missing since ${lastChecked.date}`
+  };
+  return {
+    kind,
+    accountId: row.accountId,
+    transactionId: row.id,
+    date: row.date,
+    source: row.source ?? null,
+    previousDate: lastChecked.date,
+    expectedBalance: expected,
+    actualBalance: row.balance,
+    difference,
+    message: messages[kind]
+  };
+}
+
+function reconcileAccount(
+  rows: ReconcileRow[],
+  descendingSources: Set<string>
+): { account: Omit<AccountReconciliation, "breakCount" | "status">; breaks: ReconciliationBreak[] } {
+  // Within a day the export order is the only hint, reversed for newest-first exports; the balances settle the rest.
+  const tieKey = new Map(
+    rows.map((row, index) => [row, descendingSources.has(`${row.source ?? ""}|${row.accountId}`) ? -index : index])
+  );
+  const days = new Map<string, ReconcileRow[]>();
+  for (const row of [...rows].sort((a, b) => a.date.localeCompare(b.date) || (tieKey.get(a) ?? 0) - (tieKey.get(b) ?? 0))) {
+    days.set(row.date, [...(days.get(row.date) ?? []), row]);
+  }
+
+  const breaks: ReconciliationBreak[] = [];
+  const seenBalances = new Set<string>();
+  let running: number | null = null;
+  let openingBalance: number | null = null;
+  let lastChecked: ReconcileRow | null = null;
+  let uncheckedCount = 0;
+
+  for (const sameDay of days.values()) {
+    while (sameDay.length > 0) {
+      const balance: number | null = running;
+      const next: ReconcileRow =
+        (balance === null
+          ? undefined
+          : sameDay.find((row) => row.balance !== null && Math.abs(balance - row.amount - row.balance) < BALANCE_TOLERANCE)) ??
+        sameDay[0];
+      sameDay.splice(sameDay.indexOf(next), 1);
+
+      if (next.balance === null) {
+        uncheckedCount += 1;
+        running = balance === null ? null : roundCents(balance - next.amount);
+        continue;
+      }
+      const row = { ...next, balance: next.balance };
+      const duplicateKey = `${row.date}|${row.amount.toFixed(2)}|${row.balance.toFixed(2)}`;
+      if (balance === null || lastChecked === null) {
+        openingBalance = roundCents(row.balance + row.amount);
+      } else {
+        const expected = roundCents(balance - row.amount);
+        if (Math.abs(expected - row.balance) >= BALANCE_TOLERANCE) {
+          // A repeated row leaves the balance where the original put it, so the running balance stays put too.
+          if (seenBalances.has(duplicateKey)) {
+            breaks.push(balanceBreak("duplicate", row, lastChecked, expected));
+            continue;
+          }
+          breaks.push(balanceBreak(lastChecked.source !== row.source ? "gap" : "missing-rows", row, lastChecked, expected));
+        }
+      }
+      seenBalances.add(duplicateKey);
+      running = row.balance;
+      lastChecked = row;
+    }
+  }
+
+  return {
+    account: {
+      accountId: rows[0].accountId,
+      currency: rows[0].currency,
+      from: rows.reduce((min, row) => (row.date < min ? row.date : min), rows[0].date),
+      to: rows.reduce((max, row) => (row.date > max ? row.date : max), rows[0].date),
+      transactionCount: rows.length,
+      uncheckedCount,
+      openingBalance,
+      closingBalance: running
+    },
+    breaks
+  };
+}
+
+// Walks each account's running balance: balance = previous balance - debits + credits, in ledger (import) order.
+export function reconcileBalances(rows: ReconcileRow[]): ReconciliationReport {
+  const { breaks: orderBreaks, descendingSources } = outOfOrderBreaks(rows);
+  const byAccount = new Map<string, ReconcileRow[]>();
+  for (const row of rows) {
+    byAccount.set(row.accountId, [...(byAccount.get(row.accountId) ?? []), row]);
+  }
+
+  const accounts: AccountReconciliation[] = [];
+  const breaks: ReconciliationBreak[] = [];
+  for (const accountId of [...byAccount.keys()].sort((a, b) => a.localeCompare(b))) {
+    const result = reconcileAccount(byAccount.get(accountId) ?? [], descendingSources);
+    const accountBreaks = [...orderBreaks.filter((entry) => entry.accountId === accountId), ...result.breaks];
+    accounts.push({
+      ...result.account,
+      breakCount: accountBreaks.length,
+      status: result.account.uncheckedCount === result.account.transactionCount ? "no-balances" : accountBreaks.length > 0 ? "breaks" : "reconciled"
+    });
+    breaks.push(...accountBreaks.sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      accountCount: accounts.length,
+      reconciledCount: accounts.filter((account) => account.status === "reconciled").length,
+      noBalanceCount: accounts.filter((account) => account.status === "no-balances").length,
+      breakCount: breaks.length
+    },
+    accounts,
+    breaks
+  };
+}
+
+export function dedupeTransactions<T extends { id: string }>(transactions: T[]): { transactions: T[]; duplicateCount: number } {
+  const seen = new Set<string>();
+  const unique: T[] = [];
+
+  for (const transaction of transactions) {
+    if (seen.has(transaction.id)) {
+      continue;
+    }
+    seen.add(transaction.id);
+    unique.push(transaction);
+  }
+
+  return { transactions: unique, duplicateCount: transactions.length - unique.length };
+}
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  allocateSplit,
+  buildCategoryMatcher,
+  categorizeTransactions,
+  linkTransactions,
+  loadBankProfiles,
+  normalizeTransactions,
+  parseCsvRows,
+  parseDate,
+  parseSplitShares,
+  type LinkWindows
+} from "../src/pipeline";
+
+const HEADER = "Bank Account,Date,Narrative,Debit Amount,Credit Amount,Balance,Categories,Serial";
+const profiles = loadBankProfiles({});
+const matcher = buildCategoryMatcher({}, {});
+
+function westpacCsv(rows: string[]): string {
+  return [HEADER, ...rows].join("\n");
+}
+
+function categorize(rows: string[]) {
+  const { profile, rows: bankRows, rejections } = parseCsvRows(westpacCsv(rows), profiles, null);
+  assert.deepEqual(rejections, []);
+  return categorizeTransactions(normalizeTransactions(bankRows, profile), matcher);
+}
+
+function link(rows: string[], windows: LinkWindows) {
+  return linkTransactions(categorize(rows), matcher, windows);
+}
+
+describe("parseDate", () => {
+  test("accepts real calendar dates", () => {
+    assert.equal(parseDate("29/02/2024", "DD/MM/YYYY"), "2024-02-29");
+    assert.equal(parseDate("2024-12-31", "YYYY-MM-DD"), "2024-12-31");
+  });
+
+  test("rejects dates that don't exist instead of rolling them over", () => {
+    assert.throws(() => parseDate("31/02/2024", "DD/MM/YYYY"), /Invalid date parts/);
+    assert.throws(() => parseDate("29/02/2023", "DD/MM/YYYY"), /Invalid date parts/);
+    assert.throws(() => parseDate("31/04/2024", "DD/MM/YYYY"), /Invalid date parts/);
+    assert.throws(() => parseDate("02/31/2024", "MM/DD/YYYY"), /Invalid date parts/);
+  });
+});
+
+describe("parseCsvRows", () => {
+  test("rejects a row with an amount but no date", () => {
+    const { rows, rejections } = parseCsvRows(westpacCsv(["123,,COFFEE,4.50,,,,"]), profiles, null);
+    assert.deepEqual(rows, []);
+    assert.deepEqual(
+      rejections.map(({ line, field, column }) => ({ line, field, column })),
+      [{ line: 2, field: "date", column: "Date" }]
+    );
+  });
+
+  test("rejects a row with an amount but no narrative", () => {
+    const { rows, rejections } = parseCsvRows(westpacCsv(["123,01/02/2024,,4.50,,,,"]), profiles, null);
+    assert.deepEqual(rows, []);
+    assert.deepEqual(
+      rejections.map(({ line, field, column }) => ({ line, field, column })),
+      [{ line: 2, field: "narrative", column: "Narrative" }]
+    );
+  });
+
+  test("skips footer rows that carry no amount", () => {
+    const { rows, rejections } = parseCsvRows(
+      westpacCsv(["123,01/02/2024,COFFEE,4.50,,,,", ",,Closing balance,,,95.50,,"]),
+      profiles,
+      null
+    );
+    assert.equal(rows.length, 1);
+    assert.deepEqual(rejections, []);
+  });
+});
+
+describe("linkTransactions", () => {
+  const windows: LinkWindows = { transferWindowDays: 3, refundWindowDays: 90 };
+
+  test("pairs a transfer dated exactly at the window edge", () => {
+    const linked = link(["111,01/03/2024,TO SAVINGS,200.00,,,,", "222,04/03/2024,FROM EVERYDAY,,200.00,,,"], windows);
+    assert.deepEqual(
+      linked.map((transaction) => transaction.linkType),
+      ["transfer", "transfer"]
+    );
+    assert.equal(linked[0].linkId, linked[1].linkId);
+  });
+
+  test("leaves a transfer one day past the window unpaired", () => {
+    const linked = link(["111,01/03/2024,TO SAVINGS,200.00,,,,", "222,05/03/2024,FROM EVERYDAY,,200.00,,,"], windows);
+    assert.deepEqual(
+      linked.map((transaction) => transaction.linkType),
+      [null, null]
+    );
+  });
+
+  test("pairs a refund dated exactly at the window edge", () => {
+    const linked = link(["111,01/01/2024,ACME STORE,50.00,,,,", "111,31/03/2024,ACME STORE REFUND,,50.00,,,"], windows);
+    assert.deepEqual(
+      linked.map((transaction) => transaction.linkType),
+      ["refund", "refund"]
+    );
+    assert.equal(linked[1].categoryReason, `match:refund:${linked[0].id}`);
+  });
+
+  test("leaves a refund one day past the window unpaired", () => {
+    const linked = link(["111,01/01/2024,ACME STORE,50.00,,,,", "111,01/04/2024,ACME STORE REFUND,,50.00,,,"], windows);
+    assert.deepEqual(
+      linked.map((transaction) => transaction.linkType),
+      [null, null]
+    );
+  });
+
+  test("never pairs a refund with a purchase made after it", () => {
+    const linked = link(["111,10/01/2024,ACME STORE,50.00,,,,", "111,09/01/2024,ACME STORE REFUND,,50.00,,,"], windows);
+    assert.deepEqual(
+      linked.map((transaction) => transaction.linkType),
+      [null, null]
+    );
+  });
+});
+
+describe("allocateSplit", () => {
+  test("spreads leftover cents so the shares add up to the total", () => {
+    const shares = parseSplitShares("tx_1", { Groceries: "33.3333%", Household: "33.3333%", Gifts: "33.3334%" });
+    const allocations = allocateSplit({ id: "tx_1", amount: 100, originalAmount: 100 }, shares);
+    const cents = allocations.map((allocation) => Math.round(allocation.amount * 100));
+    assert.equal(cents.reduce((sum, value) => sum + value, 0), 10_000);
+    assert.deepEqual(cents.sort((a, b) => a - b), [3333, 3333, 3334]);
+  });
+
+  test("keeps the shares of a converted amount adding up in both currencies", () => {
+    const shares = parseSplitShares("tx_1", { Travel: 10, Meals: 10, Gifts: 10 });
+    const allocations = allocateSplit({ id: "tx_1", amount: 45.67, originalAmount: 30 }, shares);
+    const sumCents = (key: "amount" | "originalAmount") =>
+      allocations.reduce((sum, allocation) => sum + Math.round(allocation[key] * 100), 0);
+    assert.equal(sumCents("amount"), 4567);
+    assert.equal(sumCents("originalAmount"), 3000);
+  });
+
+  test("rejects shares that don't add up to the transaction", () => {
+    const shares = parseSplitShares("tx_1", { Travel: 10, Meals: 10 });
+    assert.throws(() => allocateSplit({ id: "tx_1", amount: 30, originalAmount: 30 }, shares), /adds up to 20.00, not 30.00/);
+  });
+});
+
+describe("normalizeTransactions", () => {
+  const ids = (rows: string[]) => categorize(rows).map((transaction) => transaction.id);
+
+  test("gives the same row the same id on every ingest", () => {
+    const rows = ["111,01/02/2024,COFFEE,4.50,,,,", "111,02/02/2024,GROCER,30.00,,,,"];
+    assert.deepEqual(ids(rows), ids(rows));
+  });
+
+  test("keeps ids stable when the row appears in an overlapping export", () => {
+    const [first, second] = ids(["111,01/02/2024,COFFEE,4.50,,,,", "111,02/02/2024,GROCER,30.00,,,,"]);
+    const overlapping = ids(["111,31/01/2024,BAKERY,6.00,,,,", "111,02/02/2024,GROCER,30.00,,,,", "111,01/02/2024,COFFEE,4.50,,,,"]);
+    assert.equal(overlapping[1], second);
+    assert.equal(overlapping[2], first);
+  });
+
+  test("tells identical rows within one export apart", () => {
+    const [first, second] = ids(["111,01/02/2024,COFFEE,4.50,,,,", "111,01/02/2024,COFFEE,4.50,,,,"]);
+    assert.notEqual(first, second);
+    assert.deepEqual(ids(["111,01/02/2024,COFFEE,4.50,,,,", "111,01/02/2024,COFFEE,4.50,,,,"]), [first, second]);
+  });
+});
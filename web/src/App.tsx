@@ -1,35 +1,83 @@
-import { useEffect, useMemo, useState } from "react";
-import { ResponsiveContainer, Sankey, Tooltip } from "recharts";
-
-type RawTransaction = {
-  id: string;
-  date: string;
-  accountId: string;
-  merchant: string;
-  narrative: string;
-  amount: number;
-  direction: "debit" | "credit" | "neutral";
-  category: string;
-  categoryReason: string;
-};
-
-type UncategorizedTransaction = {
-  id: string;
-  date: string;
-  merchant: string;
-  amount: number;
-  narrative: string;
-  categoryReason: string;
-};
+import {
+  evaluateBudgets,
+  expandAllocations,
+  isSpendTransaction,
+  transactionsToCsv,
+  type Budget,
+  type BudgetStatus,
+  type RecurringReport
+} from "@personal-spend/core";
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Sankey, Tooltip, XAxis, YAxis } from "recharts";
+import { compareSpend, monthlyCategorySpend, type MonthlyCategorySpend, type SpendComparison } from "./compare";
+import {
+  EMPTY_FILTERS,
+  EXPLORER_COLUMNS,
+  filterTransactions,
+  sortTransactions,
+  type ExplorerColumn,
+  type ExplorerFilters,
+  type ExplorerSort
+} from "./explorer";
+import { buildImportPreview, listProfileNames, PROJECT_RULE_FILES, ruleFileKind, type RuleFiles } from "./importPreview";
+import {
+  availablePeriodValues,
+  COMPARE_MODES,
+  comparisonRange,
+  isInRange,
+  parseCompareParam,
+  parsePeriodParams,
+  PERIOD_KINDS,
+  periodValueFor,
+  periodValueLabel,
+  resolvePeriod,
+  writeCompareParam,
+  writePeriodParams,
+  type CompareMode,
+  type DateRange,
+  type PeriodKind,
+  type PeriodSelection
+} from "./period";
+import { initialSplitLines, splitLinesToShares, splitRemainder, splitTotal, type SplitLine } from "./splits";
+import { formatTag, hasTag, parseTagParam, summarizeTags, writeTagParam, type TagSummary } from "./tags";
+import {
+  assignCategoryColors,
+  CATEGORY_COLORS,
+  formatCurrency,
+  formatPercent,
+  formatTransactionAmount,
+  isForeignTransaction,
+  spendMerchantResolver,
+  type AmountDisplay,
+  type RawTransaction,
+  type UncategorizedTransaction
+} from "./transactions";
 
 type SankeyMeta = {
   generatedAt: string;
   currency: string;
+  budgets: Budget[];
+};
+
+type CategoryEdit =
+  | { kind: "transaction"; id: string; category: string }
+  | { kind: "similar"; contains: string; category: string }
+  // Empty shares remove the split.
+  | { kind: "split"; id: string; shares: Record<string, number | string> };
+
+const SAVE_ENDPOINTS: Record<CategoryEdit["kind"], string> = {
+  transaction: "/api/overrides",
+  similar: "/api/rules",
+  split: "/api/splits"
 };
 
+type NodeKind = "income" | "total" | "group" | "category" | "merchant" | "savings";
+
 type VizNode = {
+  // Layer-prefixed (e.g. `category:Dining`) so clicks and selection don't confuse nodes sharing a name.
+  nodeKey: string;
   name: string;
-  kind: "income" | "total" | "category" | "savings";
+  kind: NodeKind;
   color: string;
   value: number;
   percent?: number;
@@ -42,7 +90,7 @@ type VizLink = {
   target: number;
   value: number;
   color: string;
-  kind: "income" | "category" | "savings";
+  kind: "income" | "group" | "category" | "merchant" | "savings";
 };
 
 type VizData = {
@@ -65,20 +113,45 @@ type CategoryStat = {
   color: string;
 };
 
+type GroupStat = {
+  group: string;
+  total: number;
+  percent: number;
+  count: number;
+  color: string;
+  categories: Array<{ category: string; total: number }>;
+};
+
 type BuildVizResult = {
   sankey: VizData;
   totalIncome: number;
   totalSpend: number;
   savings: number;
+  // Unclamped, so an overspent period shows a negative rate; null when the period has no income.
+  savingsRate: number | null;
   spendCount: number;
   incomeStats: AccountStat[];
+  groupStats: GroupStat[];
   categoryStats: CategoryStat[];
   outflowCount: number;
 };
 
+type CategoryDrilldown = {
+  sankey: VizData;
+  total: number;
+  // "Other" rolls several merchants into one node, so each entry lists the merchants it stands for.
+  merchants: Array<{ label: string; merchants: string[]; total: number }>;
+};
+
+type DrillState = {
+  category: string;
+  merchant: { label: string; merchants: string[] } | null;
+};
+
 type RechartsSankeyNode = {
+  nodeKey?: string;
   name?: string;
-  kind?: "income" | "total" | "category" | "savings";
+  kind?: NodeKind;
   color?: string;
   labelMain?: string;
   labelSub?: string;
@@ -89,67 +162,52 @@ type RechartsSankeyLinkPayload = {
   target?: RechartsSankeyNode;
   value?: number;
   color?: string;
-  kind?: "income" | "category" | "savings";
+  kind?: "income" | "group" | "category" | "merchant" | "savings";
 };
 
-const EXCLUDED_CATEGORIES = new Set(["Transfers", "Income"]);
-
-const CATEGORY_COLORS = [
-  "#36b8ac",
-  "#6b67f2",
-  "#8f45e8",
-  "#35bf72",
-  "#8a62de",
-  "#f48b2b",
-  "#3d73e6",
-  "#eb59a7",
-  "#2ca2f6",
-  "#ef5e4a",
-  "#fc845b",
-  "#8f9eb4",
-  "#79c81d",
-  "#d18f2f"
-];
-
 const ACCOUNT_COLORS = ["#2f9ef6", "#4db7ff", "#18c5d5"];
+const DRILL_MERCHANT_LIMIT = 8;
+// Rows are a fixed height so the explorer can render only the slice in view.
+const EXPLORER_ROW_HEIGHT = 34;
+const EXPLORER_VIEWPORT_HEIGHT = 520;
+const EXPLORER_OVERSCAN = 10;
+const OTHER_MERCHANTS = "Other";
 
 const EMPTY_VIZ: BuildVizResult = {
   sankey: { nodes: [], links: [] },
   totalIncome: 0,
   totalSpend: 0,
   savings: 0,
+  savingsRate: null,
   spendCount: 0,
   incomeStats: [],
+  groupStats: [],
   categoryStats: [],
   outflowCount: 0
 };
 
-function formatCurrency(value: number, currency: string): string {
-  return new Intl.NumberFormat("en-AU", {
-    style: "currency",
-    currency,
-    maximumFractionDigits: 2
-  }).format(value);
+// Leading words up to the first one with digits, so store numbers and suburbs don't end up in the needle.
+function suggestNeedle(merchant: string): string {
+  const words = merchant.toLowerCase().split(/\s+/).filter(Boolean);
+  const firstWithDigits = words.findIndex((word) => /\d/.test(word));
+  return (firstWithDigits > 0 ? words.slice(0, firstWithDigits) : words).join(" ");
 }
 
-function formatPercent(value: number): string {
-  if (value > 0 && value < 0.01) {
-    return "<1%";
-  }
-  return `${Math.round(value * 100)}%`;
+function normalizeNarrative(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
 }
 
-function buildVisualization(transactions: RawTransaction[], currency: string): BuildVizResult {
+function buildVisualization(
+  transactions: RawTransaction[],
+  currency: string,
+  palette?: Map<string, string>
+): BuildVizResult {
   const incomeBySource = new Map<string, number>();
-  const categorizedIncomeTransactions = transactions.filter(
-    (transaction) => transaction.direction === "credit" && transaction.amount < 0 && transaction.category === "Income"
-  );
-  const fallbackIncomeTransactions = transactions.filter(
-    (transaction) =>
-      transaction.direction === "credit" &&
-      transaction.amount < 0 &&
-      transaction.category !== "Transfers"
+  const creditTransactions = transactions.filter(
+    (transaction) => transaction.direction === "credit" && transaction.amount < 0 && transaction.linkType === null
   );
+  const categorizedIncomeTransactions = creditTransactions.filter((transaction) => transaction.category === "Income");
+  const fallbackIncomeTransactions = creditTransactions.filter((transaction) => transaction.category !== "Transfers");
   const incomeTransactions = categorizedIncomeTransactions.length > 0 ? categorizedIncomeTransactions : fallbackIncomeTransactions;
 
   for (const transaction of incomeTransactions) {
@@ -176,12 +234,7 @@ function buildVisualization(transactions: RawTransaction[], currency: string): B
     color: ACCOUNT_COLORS[index % ACCOUNT_COLORS.length]
   }));
 
-  const spendTransactions = transactions.filter(
-    (transaction) =>
-      transaction.direction === "debit" &&
-      transaction.amount > 0 &&
-      !EXCLUDED_CATEGORIES.has(transaction.category)
-  );
+  const spendTransactions = transactions.filter(isSpendTransaction);
 
   const totalSpend = spendTransactions.reduce((sum, transaction) => sum + transaction.amount, 0);
   const savings = Math.max(0, totalIncome - totalSpend);
@@ -190,24 +243,57 @@ function buildVisualization(transactions: RawTransaction[], currency: string): B
 
   for (const transaction of spendTransactions) {
     const existing = categoryTotals.get(transaction.category);
+    const count = transaction.direction === "debit" ? 1 : 0;
     if (existing) {
       existing.total += transaction.amount;
-      existing.count += 1;
+      existing.count += count;
     } else {
-      categoryTotals.set(transaction.category, { total: transaction.amount, count: 1 });
+      categoryTotals.set(transaction.category, { total: transaction.amount, count });
     }
   }
 
   const categoryStats = [...categoryTotals.entries()]
+    .filter(([, summary]) => summary.total > 0.005)
     .sort((a, b) => b[1].total - a[1].total)
     .map(([category, summary], index) => ({
       category,
       total: summary.total,
       count: summary.count,
       percent: totalSpend > 0 ? summary.total / totalSpend : 0,
-      color: CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+      color: palette?.get(category) ?? CATEGORY_COLORS[index % CATEGORY_COLORS.length]
     }));
 
+  const categoryColors = new Map(categoryStats.map((stat) => [stat.category, stat.color]));
+  const groupTotals = new Map<string, { total: number; count: number; categories: Map<string, number> }>();
+
+  for (const transaction of spendTransactions) {
+    const group = transaction.group || transaction.category;
+    const existing = groupTotals.get(group) ?? { total: 0, count: 0, categories: new Map<string, number>() };
+    existing.total += transaction.amount;
+    existing.count += transaction.direction === "debit" ? 1 : 0;
+    existing.categories.set(transaction.category, (existing.categories.get(transaction.category) ?? 0) + transaction.amount);
+    groupTotals.set(group, existing);
+  }
+
+  const groupStats: GroupStat[] = [...groupTotals.entries()]
+    .filter(([, summary]) => summary.total > 0.005)
+    .sort((a, b) => b[1].total - a[1].total)
+    .map(([group, summary]) => {
+      const categories = [...summary.categories.entries()]
+        .filter(([, total]) => total > 0.005)
+        .sort((a, b) => b[1] - a[1])
+        .map(([category, total]) => ({ category, total }));
+      return {
+        group,
+        total: summary.total,
+        count: summary.count,
+        percent: totalSpend > 0 ? summary.total / totalSpend : 0,
+        // A group takes the colour of its largest category so the two layers read as one flow.
+        color: categoryColors.get(categories[0]?.category ?? "") ?? "#8f9eb4",
+        categories
+      };
+    });
+
   const outflowStats = [...categoryStats];
   if (savings > 0) {
     outflowStats.push({
@@ -227,6 +313,7 @@ function buildVisualization(transactions: RawTransaction[], currency: string): B
     const key = `income:${income.source}`;
     nodeIndex.set(key, nodes.length);
     nodes.push({
+      nodeKey: key,
       name: income.source,
       kind: "income",
       color: income.color,
@@ -240,6 +327,7 @@ function buildVisualization(transactions: RawTransaction[], currency: string): B
   const totalNodeKey = "total:income";
   nodeIndex.set(totalNodeKey, nodes.length);
   nodes.push({
+    nodeKey: totalNodeKey,
     name: "Total Income",
     kind: "total",
     color: "#7f8b98",
@@ -249,10 +337,25 @@ function buildVisualization(transactions: RawTransaction[], currency: string): B
     labelSub: formatCurrency(totalIncome, currency)
   });
 
+  for (const groupStat of groupStats) {
+    nodeIndex.set(`group:${groupStat.group}`, nodes.length);
+    nodes.push({
+      nodeKey: `group:${groupStat.group}`,
+      name: groupStat.group,
+      kind: "group",
+      color: groupStat.color,
+      value: groupStat.total,
+      percent: totalIncome > 0 ? groupStat.total / totalIncome : 0,
+      labelMain: groupStat.group,
+      labelSub: formatCurrency(groupStat.total, currency)
+    });
+  }
+
   for (const outflow of outflowStats) {
     const key = outflow.category === "Savings" ? "savings:bucket" : `category:${outflow.category}`;
     nodeIndex.set(key, nodes.length);
     nodes.push({
+      nodeKey: key,
       name: outflow.category,
       kind: outflow.category === "Savings" ? "savings" : "category",
       color: outflow.color,
@@ -282,17 +385,42 @@ function buildVisualization(transactions: RawTransaction[], currency: string): B
     });
   }
 
-  for (const outflow of outflowStats) {
-    const target = nodeIndex.get(outflow.category === "Savings" ? "savings:bucket" : `category:${outflow.category}`);
-    if (target === undefined) {
+  for (const groupStat of groupStats) {
+    const groupIndex = nodeIndex.get(`group:${groupStat.group}`);
+    if (groupIndex === undefined) {
       continue;
     }
     links.push({
       source: totalNodeIndex,
-      target,
-      value: Number(outflow.total.toFixed(2)),
-      color: outflow.color,
-      kind: outflow.category === "Savings" ? "savings" : "category"
+      target: groupIndex,
+      value: Number(groupStat.total.toFixed(2)),
+      color: groupStat.color,
+      kind: "group"
+    });
+
+    for (const { category, total } of groupStat.categories) {
+      const target = nodeIndex.get(`category:${category}`);
+      if (target === undefined) {
+        continue;
+      }
+      links.push({
+        source: groupIndex,
+        target,
+        value: Number(total.toFixed(2)),
+        color: categoryColors.get(category) ?? groupStat.color,
+        kind: "category"
+      });
+    }
+  }
+
+  const savingsIndex = nodeIndex.get("savings:bucket");
+  if (savingsIndex !== undefined) {
+    links.push({
+      source: totalNodeIndex,
+      target: savingsIndex,
+      value: Number(savings.toFixed(2)),
+      color: "#49d3a2",
+      kind: "savings"
     });
   }
 
@@ -301,13 +429,105 @@ function buildVisualization(transactions: RawTransaction[], currency: string): B
     totalIncome: Number(totalIncome.toFixed(2)),
     totalSpend: Number(totalSpend.toFixed(2)),
     savings: Number(savings.toFixed(2)),
-    spendCount: spendTransactions.length,
+    savingsRate: totalIncome > 0 ? (totalIncome - totalSpend) / totalIncome : null,
+    spendCount: spendTransactions.filter((transaction) => transaction.direction === "debit").length,
     incomeStats,
+    groupStats,
     categoryStats,
     outflowCount: outflowStats.length
   };
 }
 
+// Groups -> one category -> its largest merchants, with the long tail rolled into "Other".
+function buildCategoryDrilldown(
+  transactions: RawTransaction[],
+  category: string,
+  currency: string,
+  color: string
+): CategoryDrilldown {
+  const merchantOf = spendMerchantResolver(transactions);
+  const spendTransactions = transactions.filter(
+    (transaction) => isSpendTransaction(transaction) && transaction.category === category
+  );
+  const groupTotals = new Map<string, number>();
+  const merchantTotals = new Map<string, number>();
+  for (const transaction of spendTransactions) {
+    const group = transaction.group || transaction.category;
+    const merchant = merchantOf(transaction);
+    groupTotals.set(group, (groupTotals.get(group) ?? 0) + transaction.amount);
+    merchantTotals.set(merchant, (merchantTotals.get(merchant) ?? 0) + transaction.amount);
+  }
+
+  const total = spendTransactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+  const rankedMerchants = [...merchantTotals.entries()]
+    .filter(([, merchantTotal]) => merchantTotal > 0.005)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  // A single leftover merchant is shown as itself rather than as "Other".
+  const shownCount = rankedMerchants.length > DRILL_MERCHANT_LIMIT + 1 ? DRILL_MERCHANT_LIMIT : rankedMerchants.length;
+  const merchants: CategoryDrilldown["merchants"] = rankedMerchants
+    .slice(0, shownCount)
+    .map(([merchant, merchantTotal]) => ({ label: merchant, merchants: [merchant], total: merchantTotal }));
+  const rest = rankedMerchants.slice(shownCount);
+  if (rest.length > 0) {
+    merchants.push({
+      label: OTHER_MERCHANTS,
+      merchants: rest.map(([merchant]) => merchant),
+      total: rest.reduce((sum, [, merchantTotal]) => sum + merchantTotal, 0)
+    });
+  }
+
+  const groups = [...groupTotals.entries()].filter(([, groupTotal]) => groupTotal > 0.005).sort((a, b) => b[1] - a[1]);
+  const nodes: VizNode[] = groups.map(([group, groupTotal]) => ({
+    nodeKey: `group:${group}`,
+    name: group,
+    kind: "group",
+    color,
+    value: groupTotal,
+    labelMain: group,
+    labelSub: formatCurrency(groupTotal, currency)
+  }));
+  const categoryIndex = nodes.length;
+  nodes.push({
+    nodeKey: `category:${category}`,
+    name: category,
+    kind: "category",
+    color,
+    value: total,
+    labelMain: category,
+    labelSub: formatCurrency(total, currency)
+  });
+
+  const links: VizLink[] = groups.map(([, groupTotal], index) => ({
+    source: index,
+    target: categoryIndex,
+    value: Number(groupTotal.toFixed(2)),
+    color,
+    kind: "category"
+  }));
+  for (const merchant of merchants) {
+    const merchantColor = merchant.label === OTHER_MERCHANTS && merchant.merchants.length > 1 ? "#8f9eb4" : color;
+    links.push({
+      source: categoryIndex,
+      target: nodes.length,
+      value: Number(merchant.total.toFixed(2)),
+      color: merchantColor,
+      kind: "merchant"
+    });
+    nodes.push({
+      nodeKey: `merchant:${merchant.label}`,
+      name: merchant.label,
+      kind: "merchant",
+      color: merchantColor,
+      value: merchant.total,
+      percent: total > 0 ? merchant.total / total : 0,
+      labelMain: merchant.merchants.length > 1 ? `${merchant.label} (${merchant.merchants.length} merchants)` : merchant.label,
+      labelSub: `${formatCurrency(merchant.total, currency)} | ${formatPercent(total > 0 ? merchant.total / total : 0)}`
+    });
+  }
+
+  return { sankey: groups.length > 0 ? { nodes, links } : { nodes: [], links: [] }, total, merchants };
+}
+
 function LinkShape(props: {
   sourceX: number;
   sourceY: number;
@@ -355,14 +575,27 @@ function NodeShape(props: {
   width: number;
   height: number;
   payload: RechartsSankeyNode;
+  selectedKey: string | null;
+  onSelect?: (node: RechartsSankeyNode) => void;
 }) {
-  const { x, y, width, height, payload } = props;
+  const { x, y, width, height, payload, selectedKey, onSelect } = props;
+  const [hovered, setHovered] = useState(false);
+  const clickable = onSelect !== undefined && (payload.kind === "category" || payload.kind === "merchant");
+  const selected = payload.nodeKey !== undefined && payload.nodeKey === selectedKey;
+  const className = ["sankey-node", clickable ? "clickable" : "", hovered && clickable ? "hovered" : "", selected ? "selected" : ""]
+    .filter(Boolean)
+    .join(" ");
 
   return (
-    <g>
-      <rect x={x} y={y} width={width} height={height} rx={2} fill="#bcc4cc" fillOpacity={0.95} />
+    <g
+      className={className}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onClick={clickable ? () => onSelect(payload) : undefined}
+    >
+      <rect x={x} y={y} width={width} height={height} rx={2} className="sankey-node-body" />
       <rect
-        x={payload.kind === "category" ? x : x + width - 3}
+        x={payload.kind === "category" || payload.kind === "group" || payload.kind === "merchant" ? x : x + width - 3}
         y={y}
         width={3}
         height={height}
@@ -372,7 +605,17 @@ function NodeShape(props: {
       {payload.kind === "total" ? (
         <rect x={x + width / 2 - 1} y={y} width={2} height={height} fill="#6e7b8a" opacity={0.42} />
       ) : null}
-      {(payload.kind === "category" || payload.kind === "savings") ? (
+      {payload.kind === "group" ? (
+        <g className="sankey-label sankey-label-group">
+          <text x={x + width + 8} y={y + height / 2 - 1} textAnchor="start" className="sankey-label-main">
+            {payload.labelMain}
+          </text>
+          <text x={x + width + 8} y={y + height / 2 + 13} textAnchor="start" className="sankey-label-sub">
+            {payload.labelSub}
+          </text>
+        </g>
+      ) : null}
+      {payload.kind === "category" || payload.kind === "merchant" || payload.kind === "savings" ? (
         <g className="sankey-label">
           <rect x={x + width + 12} y={y + height / 2 - 12} width={24} height={24} rx={8} className="sankey-chip" />
           <rect x={x + width + 21} y={y + height / 2 - 3} width={6} height={6} rx={2} fill={payload.color ?? "#5f6b79"} />
@@ -434,41 +677,1170 @@ function FlowTooltip({
   );
 }
 
+function FlowChart({
+  title,
+  data,
+  branchCount,
+  currency,
+  selectedKey,
+  onNodeSelect,
+  children
+}: {
+  title: string;
+  data: VizData;
+  // The tallest column, which drives the chart height and node spacing.
+  branchCount: number;
+  currency: string;
+  selectedKey?: string | null;
+  onNodeSelect?: (node: RechartsSankeyNode) => void;
+  children?: ReactNode;
+}) {
+  const chartHeight = useMemo(() => {
+    const dynamicHeight = 280 + Math.max(branchCount, 1) * 30;
+    return Math.max(360, Math.min(620, dynamicHeight));
+  }, [branchCount]);
+  const nodePadding = useMemo(() => {
+    if (branchCount >= 14) {
+      return 12;
+    }
+    if (branchCount >= 10) {
+      return 18;
+    }
+    return 24;
+  }, [branchCount]);
+
+  return (
+    <div className="canvas-panel">
+      <div className="canvas-header">
+        <h2>{title}</h2>
+        {children}
+      </div>
+
+      {/* Recharts cannot lay out an empty graph, e.g. a drilled-into category with no spend in the period. */}
+      {data.links.length > 0 ? (
+        <div className="chart" style={{ height: chartHeight }}>
+          <ResponsiveContainer width="100%" height={chartHeight}>
+            <Sankey
+              data={data}
+              nodePadding={nodePadding}
+              nodeWidth={15}
+              linkCurvature={0.3}
+              iterations={64}
+              sort={false}
+              margin={{ top: 34, right: 340, bottom: 20, left: 220 }}
+              node={(nodeProps: Parameters<typeof NodeShape>[0]) => (
+                <NodeShape {...nodeProps} selectedKey={selectedKey ?? null} onSelect={onNodeSelect} />
+              )}
+              link={LinkShape}
+            >
+              <Tooltip content={<FlowTooltip currency={currency} />} />
+            </Sankey>
+          </ResponsiveContainer>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function ImportPanel({ currency, apiAvailable }: { currency: string; apiAvailable: boolean }) {
+  const [csvFile, setCsvFile] = useState<{ name: string; content: string } | null>(null);
+  const [droppedRules, setDroppedRules] = useState<Partial<RuleFiles>>({});
+  const [forcedProfile, setForcedProfile] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const ruleFiles = useMemo(() => ({ ...PROJECT_RULE_FILES, ...droppedRules }), [droppedRules]);
+  const profileNames = useMemo(() => {
+    try {
+      return listProfileNames(ruleFiles);
+    } catch {
+      return [];
+    }
+  }, [ruleFiles]);
+  const preview = useMemo(() => {
+    if (!csvFile) {
+      return null;
+    }
+    try {
+      return { result: buildImportPreview(csvFile.content, ruleFiles, forcedProfile || null, currency), error: null };
+    } catch (previewError) {
+      return { result: null, error: previewError instanceof Error ? previewError.message : String(previewError) };
+    }
+  }, [csvFile, ruleFiles, forcedProfile, currency]);
+  const viz = useMemo(
+    () => (preview?.result ? buildVisualization(expandAllocations(preview.result.transactions), currency) : EMPTY_VIZ),
+    [preview, currency]
+  );
+
+  async function addFiles(files: FileList | null) {
+    setStatus(null);
+    for (const file of Array.from(files ?? [])) {
+      const content = await file.text();
+      if (file.name.toLowerCase().endsWith(".csv")) {
+        setCsvFile({ name: file.name, content });
+      } else if (/\.ya?ml$/i.test(file.name)) {
+        setDroppedRules((current) => ({ ...current, [ruleFileKind(file.name)]: content }));
+      } else {
+        setStatus(`Skipped ${file.name}: expected a .csv or .yml file.`);
+      }
+    }
+  }
+
+  async function save() {
+    if (!csvFile) {
+      return;
+    }
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileName: csvFile.name, content: csvFile.content, profile: forcedProfile || undefined })
+      });
+      const body = (await response.json()) as {
+        error?: string;
+        source?: string;
+        newEntries?: number;
+        duplicateCount?: number;
+        rejectedRows?: number;
+      };
+      if (!response.ok) {
+        throw new Error(body.error ?? `Import failed with status ${response.status}`);
+      }
+      setStatus(
+        `Saved ${body.source}: ${body.newEntries ?? 0} new ledger entries, ${body.duplicateCount ?? 0} duplicate rows dropped` +
+          (body.rejectedRows ? `, ${body.rejectedRows} rows rejected.` : ".")
+      );
+      setCsvFile(null);
+    } catch (saveError) {
+      setStatus(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const result = preview?.result ?? null;
+  const droppedRuleNames = Object.keys(droppedRules);
+  const canSave = apiAvailable && result !== null && !saving;
+
+  return (
+    <section className="import-panel">
+      <h2>Import CSV</h2>
+      <label
+        className="drop-zone"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.preventDefault();
+          void addFiles(event.dataTransfer.files);
+        }}
+      >
+        <span>
+          Drop a bank CSV here, optionally with <code>categories.yml</code>, <code>overrides.yml</code>,{" "}
+          <code>merchants.yml</code> or <code>profiles.yml</code> to preview against other rules.
+        </span>
+        <input
+          type="file"
+          multiple
+          accept=".csv,.yml,.yaml"
+          onChange={(event) => {
+            void addFiles(event.target.files);
+            event.target.value = "";
+          }}
+        />
+      </label>
+      <p className="hint">
+        Rules: {droppedRuleNames.length > 0 ? `dropped ${droppedRuleNames.join(", ")} + project rules` : "project rules"}
+        {droppedRuleNames.length > 0 ? (
+          <>
+            {" "}
+            <button type="button" className="link-button" onClick={() => setDroppedRules({})}>
+              Reset
+            </button>
+          </>
+        ) : null}
+      </p>
+      {status ? <p className="hint">{status}</p> : null}
+
+      {csvFile ? (
+        <div className="import-preview">
+          <div className="import-toolbar">
+            <strong>{csvFile.name}</strong>
+            <select value={forcedProfile} onChange={(event) => setForcedProfile(event.target.value)} aria-label="Bank profile">
+              <option value="">Auto-detect profile</option>
+              {profileNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <button type="button" disabled={!canSave} onClick={() => void save()}>
+              Save to ledger
+            </button>
+            <button type="button" onClick={() => setCsvFile(null)}>
+              Discard
+            </button>
+          </div>
+          {!apiAvailable ? (
+            <p className="hint">Run `npm run serve` to save from here, or save the file and run `npm run ingest`.</p>
+          ) : null}
+          {preview?.error ? <p className="error">{preview.error}</p> : null}
+          {result ? (
+            <>
+              <p className="hint">
+                Profile {result.profile}: {result.rows.length} rows, {result.transactions.length} transactions
+                {result.duplicateCount > 0 ? `, ${result.duplicateCount} duplicate rows dropped` : ""}.
+              </p>
+              {result.rejections.length > 0 ? (
+                <div className="import-issues">
+                  <p className="error">
+                    {result.rejections.length} rejected value(s); these rows are left out of the preview and are skipped on save
+                    (listed in rejected.json).
+                  </p>
+                  <ul>
+                    {result.rejections.slice(0, 20).map((rejection) => (
+                      <li key={`${rejection.line}:${rejection.field ?? ""}:${rejection.message}`}>
+                        Line {rejection.line}
+                        {rejection.column ? `, ${rejection.column}` : ""}
+                        {rejection.value !== null ? ` "${rejection.value}"` : ""}: {rejection.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+              <table className="import-rows">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Account</th>
+                    <th>Merchant</th>
+                    <th>Amount</th>
+                    <th>Category</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.transactions.slice(0, 12).map((transaction) => (
+                    <tr key={transaction.id}>
+                      <td>{transaction.date}</td>
+                      <td>{transaction.accountId}</td>
+                      <td>{transaction.merchant}</td>
+                      <td>{formatCurrency(-transaction.amount, currency)}</td>
+                      <td>{transaction.category}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {viz.sankey.links.length > 0 ? (
+                <FlowChart
+                  title="Preview: Income -> Groups -> Categories + Savings"
+                  data={viz.sankey}
+                  branchCount={Math.max(viz.outflowCount, viz.incomeStats.length)}
+                  currency={currency}
+                />
+              ) : null}
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+function PeriodPicker({
+  selection,
+  range,
+  dates,
+  compare,
+  onChange,
+  onCompareChange
+}: {
+  selection: PeriodSelection;
+  range: DateRange;
+  dates: string[];
+  compare: CompareMode;
+  onChange: (selection: PeriodSelection) => void;
+  onCompareChange: (mode: CompareMode) => void;
+}) {
+  const values = useMemo(() => availablePeriodValues(selection.kind, dates), [selection.kind, dates]);
+  const latestDate = dates.length > 0 ? dates[dates.length - 1] : null;
+  const current = range.from && values.length > 0 ? periodValueFor(selection.kind, range.from) : "";
+  const index = values.indexOf(current);
+
+  const selectKind = (kind: PeriodKind) => {
+    if (kind === "custom") {
+      // Start a custom range from whatever window is showing so it can be nudged rather than typed from scratch.
+      onChange({ kind, value: "", from: range.from ?? dates[0] ?? "", to: range.to ?? latestDate ?? "" });
+      return;
+    }
+    onChange({ kind, value: "", from: "", to: "" });
+  };
+
+  return (
+    <div className="period-picker">
+      <div className="period-kinds" role="group" aria-label="Period">
+        {PERIOD_KINDS.map((entry) => (
+          <button
+            key={entry.kind}
+            type="button"
+            className={entry.kind === selection.kind ? "active" : undefined}
+            onClick={() => selectKind(entry.kind)}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+      {values.length > 0 ? (
+        <div className="period-values">
+          <button
+            type="button"
+            disabled={index === -1 || index >= values.length - 1}
+            onClick={() => onChange({ ...selection, value: values[index + 1] })}
+            aria-label="Previous period"
+          >
+            &lt;
+          </button>
+          <select value={current} onChange={(event) => onChange({ ...selection, value: event.target.value })}>
+            {index === -1 && current ? <option value={current}>{periodValueLabel(selection.kind, current)}</option> : null}
+            {values.map((value) => (
+              <option key={value} value={value}>
+                {periodValueLabel(selection.kind, value)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={index <= 0}
+            onClick={() => onChange({ ...selection, value: values[index - 1] })}
+            aria-label="Next period"
+          >
+            &gt;
+          </button>
+        </div>
+      ) : null}
+      {selection.kind === "custom" ? (
+        <div className="period-values">
+          <input
+            type="date"
+            value={selection.from}
+            onChange={(event) => onChange({ ...selection, from: event.target.value })}
+            aria-label="From"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={selection.to}
+            onChange={(event) => onChange({ ...selection, to: event.target.value })}
+            aria-label="To"
+          />
+        </div>
+      ) : null}
+      <select
+        value={compare}
+        onChange={(event) => onCompareChange(event.target.value as CompareMode)}
+        disabled={range.from === null || range.to === null}
+        aria-label="Compare with"
+      >
+        {COMPARE_MODES.map((entry) => (
+          <option key={entry.mode} value={entry.mode}>
+            {entry.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function formatChange(value: number, currency: string): string {
+  return `${value > 0 ? "+" : ""}${formatCurrency(value, currency)}`;
+}
+
+function formatChangePercent(value: number | null): string {
+  return value === null ? "-" : `${value > 0 ? "+" : ""}${Math.round(value * 100)}%`;
+}
+
+function ComparisonPanel({
+  currentLabel,
+  previousLabel,
+  comparison,
+  monthly,
+  colors,
+  currency
+}: {
+  currentLabel: string;
+  previousLabel: string;
+  comparison: SpendComparison;
+  monthly: MonthlyCategorySpend;
+  colors: Map<string, string>;
+  currency: string;
+}) {
+  const totalChange = comparison.currentTotal - comparison.previousTotal;
+
+  return (
+    <section className="comparison">
+      <h2>
+        {currentLabel} vs {previousLabel}
+      </h2>
+      <p className="comparison-summary">
+        Spend {formatCurrency(comparison.currentTotal, currency)} vs {formatCurrency(comparison.previousTotal, currency)} (
+        <span className={totalChange > 0 ? "delta-up" : "delta-down"}>{formatChange(totalChange, currency)}</span>
+        {comparison.previousTotal > 0 ? `, ${formatChangePercent(totalChange / comparison.previousTotal)}` : ""})
+      </p>
+
+      <table className="comparison-table">
+        <thead>
+          <tr>
+            <th>Category</th>
+            <th>{currentLabel}</th>
+            <th>{previousLabel}</th>
+            <th>Change</th>
+            <th>%</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.categories.map((entry) => (
+            <tr key={entry.category} className={entry.status === "changed" ? undefined : `status-${entry.status}`}>
+              <td>
+                <span className="swatch" style={{ background: colors.get(entry.category) ?? "#8f9eb4" }} />
+                {entry.category}
+                {entry.status === "changed" ? null : <span className="badge">{entry.status}</span>}
+              </td>
+              <td>{formatCurrency(entry.current, currency)}</td>
+              <td>{formatCurrency(entry.previous, currency)}</td>
+              <td className={entry.change > 0 ? "delta-up" : "delta-down"}>{formatChange(entry.change, currency)}</td>
+              <td>{formatChangePercent(entry.changePercent)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="merchant-changes">
+        {[
+          { title: `New in ${currentLabel}`, merchants: comparison.newMerchants },
+          { title: `Gone since ${previousLabel}`, merchants: comparison.goneMerchants }
+        ].map((list) => (
+          <div key={list.title}>
+            <h3>
+              {list.title} ({list.merchants.length})
+            </h3>
+            {list.merchants.length === 0 ? (
+              <p className="hint">None.</p>
+            ) : (
+              <ul>
+                {list.merchants.slice(0, 10).map((merchant) => (
+                  <li key={merchant.merchant}>
+                    {merchant.merchant} <span className="hint">{merchant.category}</span> {formatCurrency(merchant.total, currency)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <h3>Monthly spend by category</h3>
+      <div className="monthly-chart">
+        <ResponsiveContainer width="100%" height={320}>
+          <BarChart data={monthly.rows} margin={{ top: 8, right: 16, bottom: 8, left: 16 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#d7dee4" vertical={false} />
+            <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+            <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => formatCurrency(value, currency)} width={90} />
+            <Tooltip formatter={(value: number) => formatCurrency(value, currency)} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {monthly.categories.map((category) => (
+              <Bar key={category} dataKey={category} stackId="spend" fill={colors.get(category) ?? "#8f9eb4"} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </section>
+  );
+}
+
+function BudgetBar({ status, currency }: { status: BudgetStatus; currency: string }) {
+  const used = status.limit > 0 ? status.actual / status.limit : 0;
+  const projectedOver = status.projected !== null && status.projected > status.limit;
+
+  return (
+    <div className="budget">
+      <div className="budget-track">
+        <div
+          className={`budget-fill${status.overBudget ? " over" : projectedOver ? " warn" : ""}`}
+          style={{ width: `${Math.min(100, Math.max(0, used * 100))}%` }}
+        />
+      </div>
+      <span className="budget-text">
+        {formatPercent(used)} of {formatCurrency(status.limit, currency)}
+        {status.projected !== null ? ` · projected ${formatCurrency(status.projected, currency)} by ${status.to}` : ""}
+      </span>
+    </div>
+  );
+}
+
+function CategoryBudgets({
+  categoryStats,
+  budgets,
+  colors,
+  currency
+}: {
+  categoryStats: CategoryStat[];
+  budgets: BudgetStatus[];
+  colors: Map<string, string>;
+  currency: string;
+}) {
+  const categoryBudgets = new Map(
+    budgets.filter((status) => status.scope === "category").map((status) => [status.name, status])
+  );
+  // Budgeted categories with no spend yet still get a row so the allowance is visible.
+  const rows = [
+    ...categoryStats.map((stat) => ({ name: stat.category, total: stat.total, color: stat.color })),
+    ...[...categoryBudgets.keys()]
+      .filter((name) => !categoryStats.some((stat) => stat.category === name))
+      .map((name) => ({ name, total: 0, color: colors.get(name) ?? "#8f9eb4" }))
+  ];
+  const groupBudgets = budgets.filter((status) => status.scope === "group");
+
+  return (
+    <section className="budgets">
+      <h2>Categories{budgets.length > 0 ? " & Budgets" : ""}</h2>
+      <ul>
+        {rows.map((row) => {
+          const status = categoryBudgets.get(row.name);
+          return (
+            <li key={row.name}>
+              <span className="budget-name">
+                <span className="swatch" style={{ background: row.color }} />
+                {row.name}
+              </span>
+              <strong>{formatCurrency(row.total, currency)}</strong>
+              {status ? <BudgetBar status={status} currency={currency} /> : <span />}
+            </li>
+          );
+        })}
+        {groupBudgets.map((status) => (
+          <li key={`group:${status.name}`}>
+            <span className="budget-name">{status.name} (group)</span>
+            <strong>{formatCurrency(status.actual, currency)}</strong>
+            <BudgetBar status={status} currency={currency} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function TagPanel({
+  tags,
+  selected,
+  currency,
+  onSelect
+}: {
+  tags: TagSummary[];
+  selected: string;
+  currency: string;
+  onSelect: (tag: string) => void;
+}) {
+  return (
+    <section className="tags">
+      <h2>Tags</h2>
+      <p className="hint">Pick a tag to show only its spend above, across every category.</p>
+      <ul>
+        {tags.map((entry) => (
+          <li key={entry.tag}>
+            <button
+              type="button"
+              className={entry.tag === selected ? "active" : undefined}
+              onClick={() => onSelect(entry.tag === selected ? "" : entry.tag)}
+            >
+              {formatTag(entry.tag)}
+            </button>
+            <span className="hint">
+              {entry.count} transaction{entry.count === 1 ? "" : "s"}
+            </span>
+            <strong>{formatCurrency(entry.spend, currency)}</strong>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function DrillBreadcrumbs({ drill, onNavigate }: { drill: DrillState | null; onNavigate: (drill: DrillState | null) => void }) {
+  if (!drill) {
+    return <p className="hint">Click a category to see its merchants.</p>;
+  }
+  return (
+    <nav className="breadcrumbs" aria-label="Sankey drill-down">
+      <button type="button" onClick={() => onNavigate(null)}>
+        All spend
+      </button>
+      <span>/</span>
+      {drill.merchant ? (
+        <>
+          <button type="button" onClick={() => onNavigate({ category: drill.category, merchant: null })}>
+            {drill.category}
+          </button>
+          <span>/</span>
+          <strong>{drill.merchant.label}</strong>
+        </>
+      ) : (
+        <strong>{drill.category}</strong>
+      )}
+    </nav>
+  );
+}
+
+function DrillTransactions({
+  title,
+  transactions,
+  merchantOf,
+  currency
+}: {
+  title: string;
+  transactions: RawTransaction[];
+  merchantOf: (transaction: RawTransaction) => string;
+  currency: string;
+}) {
+  return (
+    <section className="drill-transactions">
+      <h2>
+        {title} ({transactions.length})
+      </h2>
+      <table className="comparison-table">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Merchant</th>
+            <th>Narrative</th>
+            <th>Account</th>
+            <th>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {transactions.map((transaction) => (
+            <tr key={transaction.id}>
+              <td>{transaction.date}</td>
+              <td>
+                {merchantOf(transaction)}
+                {transaction.direction === "credit" ? <span className="badge">refund</span> : null}
+              </td>
+              <td>{transaction.narrative}</td>
+              <td>{transaction.accountId}</td>
+              <td>
+                {formatTransactionAmount(transaction, currency)}
+                {isForeignTransaction(transaction, currency) ? (
+                  <span className="hint"> ({formatTransactionAmount(transaction, currency, "original")})</span>
+                ) : null}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function SplitEditor({
+  transaction,
+  currency,
+  saving,
+  onSave,
+  onClose
+}: {
+  transaction: RawTransaction;
+  currency: string;
+  saving: boolean;
+  onSave: (edit: CategoryEdit) => void;
+  onClose: () => void;
+}) {
+  const [lines, setLines] = useState<SplitLine[]>(() => initialSplitLines(transaction));
+  const total = splitTotal(transaction);
+  const transactionCurrency = transaction.currency ?? currency;
+  const remainder = splitRemainder(lines, total);
+  const shares = splitLinesToShares(lines, total);
+  const balanced = Math.abs(remainder) < 0.005;
+
+  const updateLine = (index: number, line: Partial<SplitLine>) =>
+    setLines((current) => current.map((existing, i) => (i === index ? { ...existing, ...line } : existing)));
+
+  return (
+    <div className="split-editor">
+      <p>
+        Split <strong>{transaction.merchant}</strong> on {transaction.date},{" "}
+        {formatCurrency(total, transactionCurrency)}. Enter amounts or percentages like 40%.
+      </p>
+      {lines.map((line, index) => (
+        <div key={index} className="split-line">
+          <input
+            list="category-options"
+            placeholder="Category"
+            value={line.category}
+            onChange={(event) => updateLine(index, { category: event.target.value })}
+            aria-label={`Split category ${index + 1}`}
+          />
+          <input
+            placeholder="Amount or %"
+            value={line.share}
+            onChange={(event) => updateLine(index, { share: event.target.value })}
+            aria-label={`Split share ${index + 1}`}
+          />
+          <button
+            type="button"
+            disabled={lines.length <= 2}
+            onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <div className="split-actions">
+        <button type="button" onClick={() => setLines((current) => [...current, { category: "", share: "" }])}>
+          Add category
+        </button>
+        <span className={balanced ? "hint" : "split-remainder"}>
+          {balanced ? "Adds up." : `${formatCurrency(remainder, transactionCurrency)} ${remainder > 0 ? "left to allocate" : "over"}`}
+        </span>
+        <button
+          type="button"
+          disabled={saving || shares === null || !balanced}
+          onClick={() => shares && onSave({ kind: "split", id: transaction.id, shares })}
+        >
+          Save split
+        </button>
+        {transaction.allocations ? (
+          <button type="button" disabled={saving} onClick={() => onSave({ kind: "split", id: transaction.id, shares: {} })}>
+            Remove split
+          </button>
+        ) : null}
+        <button type="button" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function TransactionExplorer({
+  transactions,
+  currency,
+  editable,
+  saving,
+  status,
+  onSave
+}: {
+  transactions: RawTransaction[];
+  currency: string;
+  editable: boolean;
+  saving: boolean;
+  status: string | null;
+  onSave: (edit: CategoryEdit) => void;
+}) {
+  const [filters, setFilters] = useState<ExplorerFilters>(EMPTY_FILTERS);
+  const [splitting, setSplitting] = useState<RawTransaction | null>(null);
+  const [sort, setSort] = useState<ExplorerSort>({ column: "date", descending: true });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [amountDisplay, setAmountDisplay] = useState<AmountDisplay>("reporting");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const categoryOptions = useMemo(
+    () => [...new Set(transactions.map((transaction) => transaction.category))].sort((a, b) => a.localeCompare(b)),
+    [transactions]
+  );
+  const accountOptions = useMemo(
+    () => [...new Set(transactions.map((transaction) => transaction.accountId))].sort((a, b) => a.localeCompare(b)),
+    [transactions]
+  );
+  const tagOptions = useMemo(
+    () => [...new Set(transactions.flatMap((transaction) => transaction.tags ?? []))].sort((a, b) => a.localeCompare(b)),
+    [transactions]
+  );
+  const rows = useMemo(() => sortTransactions(filterTransactions(transactions, filters), sort), [transactions, filters, sort]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [filters, sort]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / EXPLORER_ROW_HEIGHT) - EXPLORER_OVERSCAN);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + EXPLORER_VIEWPORT_HEIGHT) / EXPLORER_ROW_HEIGHT) + EXPLORER_OVERSCAN);
+  const netAmount = rows.reduce((sum, transaction) => sum + transaction.amount, 0);
+
+  const updateFilter = <K extends keyof ExplorerFilters>(key: K, value: ExplorerFilters[K]) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  const toggleSort = (column: ExplorerColumn) =>
+    setSort((current) =>
+      current.column === column
+        ? { column, descending: !current.descending }
+        : { column, descending: column === "date" || column === "amount" }
+    );
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([transactionsToCsv(rows)], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `transactions-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="explorer">
+      <h2>Transactions</h2>
+      <div className="explorer-filters">
+        <input
+          type="search"
+          placeholder="Search narrative, merchant, category, reason, note or #tag"
+          value={filters.text}
+          onChange={(event) => updateFilter("text", event.target.value)}
+        />
+        <select value={filters.category} onChange={(event) => updateFilter("category", event.target.value)}>
+          <option value="">All categories</option>
+          {categoryOptions.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+        {tagOptions.length > 0 ? (
+          <select value={filters.tag} onChange={(event) => updateFilter("tag", event.target.value)}>
+            <option value="">All tags</option>
+            {tagOptions.map((tag) => (
+              <option key={tag} value={tag}>
+                {formatTag(tag)}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <select value={filters.accountId} onChange={(event) => updateFilter("accountId", event.target.value)}>
+          <option value="">All accounts</option>
+          {accountOptions.map((accountId) => (
+            <option key={accountId} value={accountId}>
+              {accountId}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.direction}
+          onChange={(event) => updateFilter("direction", event.target.value as ExplorerFilters["direction"])}
+        >
+          <option value="">Debits and credits</option>
+          <option value="debit">Debits</option>
+          <option value="credit">Credits</option>
+          <option value="neutral">Neutral</option>
+        </select>
+        <label>
+          Amount
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="min"
+            value={filters.minAmount}
+            onChange={(event) => updateFilter("minAmount", event.target.value)}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="max"
+            value={filters.maxAmount}
+            onChange={(event) => updateFilter("maxAmount", event.target.value)}
+          />
+        </label>
+        <label>
+          From
+          <input type="date" value={filters.from} onChange={(event) => updateFilter("from", event.target.value)} />
+        </label>
+        <label>
+          To
+          <input type="date" value={filters.to} onChange={(event) => updateFilter("to", event.target.value)} />
+        </label>
+        <select value={amountDisplay} onChange={(event) => setAmountDisplay(event.target.value as AmountDisplay)}>
+          <option value="reporting">Amounts in {currency}</option>
+          <option value="original">Original amounts</option>
+        </select>
+        <button type="button" onClick={() => setFilters(EMPTY_FILTERS)}>
+          Clear
+        </button>
+        <button type="button" disabled={rows.length === 0} onClick={exportCsv}>
+          Export CSV
+        </button>
+      </div>
+      <p className="hint">
+        {rows.length} of {transactions.length} transactions, net {formatCurrency(netAmount, currency)}.
+      </p>
+      {splitting ? (
+        <SplitEditor
+          key={splitting.id}
+          transaction={splitting}
+          currency={currency}
+          saving={saving}
+          onSave={(edit) => {
+            onSave(edit);
+            setSplitting(null);
+          }}
+          onClose={() => setSplitting(null)}
+        />
+      ) : null}
+      {editable && status ? <p className="hint">{status}</p> : null}
+
+      <div
+        ref={scrollRef}
+        className="explorer-scroll"
+        style={{ height: EXPLORER_VIEWPORT_HEIGHT }}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <table className="explorer-table">
+          <thead>
+            <tr>
+              {EXPLORER_COLUMNS.map(({ column, label }) => (
+                <th key={column} aria-sort={sort.column === column ? (sort.descending ? "descending" : "ascending") : "none"}>
+                  <button type="button" onClick={() => toggleSort(column)}>
+                    {label}
+                    {sort.column === column ? (sort.descending ? " ▼" : " ▲") : ""}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr style={{ height: firstRow * EXPLORER_ROW_HEIGHT }} />
+            {rows.slice(firstRow, lastRow).map((transaction) => (
+              <tr key={transaction.id} style={{ height: EXPLORER_ROW_HEIGHT }}>
+                <td>{transaction.date}</td>
+                <td title={transaction.merchantRaw && transaction.merchantRaw !== transaction.merchant ? `${transaction.merchant} (${transaction.merchantRaw})` : transaction.merchant}>
+                  {transaction.merchant}
+                </td>
+                <td title={transaction.narrative}>{transaction.narrative}</td>
+                <td>{transaction.accountId}</td>
+                <td>{transaction.direction}</td>
+                <td
+                  className="amount"
+                  title={
+                    isForeignTransaction(transaction, currency)
+                      ? `${formatTransactionAmount(transaction, currency, amountDisplay === "original" ? "reporting" : "original")} at ${transaction.fxRate}`
+                      : undefined
+                  }
+                >
+                  {formatTransactionAmount(transaction, currency, amountDisplay)}
+                </td>
+                <td
+                  title={transaction.allocations
+                    ?.map((allocation) => `${allocation.category}: ${formatCurrency(allocation.amount, currency)}`)
+                    .join("\n")}
+                >
+                  {transaction.category}
+                  {editable && transaction.direction !== "neutral" ? (
+                    <button type="button" className="split-button" onClick={() => setSplitting(transaction)}>
+                      Split
+                    </button>
+                  ) : null}
+                </td>
+                <td title={transaction.categoryReason}>{transaction.categoryReason}</td>
+                <td title={transaction.note ?? undefined}>
+                  {(transaction.tags ?? []).map(formatTag).join(" ")}
+                  {transaction.note ? <span className="hint"> {transaction.note}</span> : null}
+                </td>
+              </tr>
+            ))}
+            <tr style={{ height: (rows.length - lastRow) * EXPLORER_ROW_HEIGHT }} />
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+const CADENCE_LABELS: Record<RecurringReport["items"][number]["cadence"], string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+  annual: "Annual"
+};
+
+function RecurringPanel({ report, currency }: { report: RecurringReport; currency: string }) {
+  return (
+    <section className="recurring">
+      <h2>Recurring</h2>
+      <p className="hint">
+        {report.summary.activeCount} active, {formatCurrency(report.summary.activeAnnualCost, currency)} a year
+        {report.asOf ? ` (as of ${report.asOf}, across all data)` : ""}.
+        {report.summary.uncategorizedCount > 0 ? ` ${report.summary.uncategorizedCount} still uncategorized.` : ""}
+      </p>
+      {report.items.length === 0 ? (
+        <p>No recurring charges found yet.</p>
+      ) : (
+        <table className="comparison-table">
+          <thead>
+            <tr>
+              <th>Merchant</th>
+              <th>Cadence</th>
+              <th>Amount</th>
+              <th>Per year</th>
+              <th>Next expected</th>
+              <th>Price changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.items.map((item) => (
+              <tr key={item.id} className={item.stopped ? "status-gone" : undefined}>
+                <td>
+                  {item.merchant}
+                  <span className="hint"> {item.category}</span>
+                  {item.uncategorized ? <span className="badge">uncategorized</span> : null}
+                  {item.stopped ? <span className="badge">stopped</span> : null}
+                </td>
+                <td>
+                  {CADENCE_LABELS[item.cadence]} <span className="hint">x{item.occurrences}</span>
+                </td>
+                <td>{formatCurrency(item.amount, currency)}</td>
+                <td>{formatCurrency(item.annualCost, currency)}</td>
+                <td>{item.stopped ? `last seen ${item.lastDate}` : item.nextExpectedDate}</td>
+                <td>
+                  {item.priceChanges.length === 0
+                    ? "-"
+                    : item.priceChanges
+                        .map((change) => `${formatCurrency(change.from, currency)} -> ${formatCurrency(change.to, currency)} (${change.date})`)
+                        .join(", ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+function UncategorizedRow({
+  transaction,
+  currency,
+  editable,
+  saving,
+  countSimilar,
+  onSave
+}: {
+  transaction: UncategorizedTransaction;
+  currency: string;
+  editable: boolean;
+  saving: boolean;
+  countSimilar: (needle: string) => number;
+  onSave: (edit: CategoryEdit) => void;
+}) {
+  const [category, setCategory] = useState("");
+  // Rules match the narrative, so the needle comes from the raw merchant rather than an alias.
+  const [needle, setNeedle] = useState(() => suggestNeedle(transaction.merchantRaw ?? transaction.merchant));
+  const chosen = category.trim();
+  const similar = normalizeNarrative(needle);
+
+  return (
+    <li>
+      <span className="uncategorized-summary">
+        <strong>{transaction.date}</strong> | {transaction.merchant} | {formatCurrency(transaction.amount, currency)}
+      </span>
+      {editable ? (
+        <span className="uncategorized-actions">
+          <input
+            list="category-options"
+            placeholder="Category"
+            value={category}
+            onChange={(event) => setCategory(event.target.value)}
+            aria-label={`Category for ${transaction.merchant}`}
+          />
+          <button
+            type="button"
+            disabled={saving || !chosen}
+            onClick={() => onSave({ kind: "transaction", id: transaction.id, category: chosen })}
+          >
+            This one
+          </button>
+          <input
+            className="needle"
+            value={needle}
+            onChange={(event) => setNeedle(event.target.value)}
+            aria-label={`Rule text for ${transaction.merchant}`}
+          />
+          <button
+            type="button"
+            disabled={saving || !chosen || !similar}
+            onClick={() => onSave({ kind: "similar", contains: similar, category: chosen })}
+          >
+            All similar ({similar ? countSimilar(similar) : 0})
+          </button>
+        </span>
+      ) : null}
+    </li>
+  );
+}
+
 export default function App() {
   const [transactions, setTransactions] = useState<RawTransaction[]>([]);
   const [uncategorized, setUncategorized] = useState<UncategorizedTransaction[]>([]);
-  const [meta, setMeta] = useState<SankeyMeta>({ generatedAt: "", currency: "AUD" });
+  const [meta, setMeta] = useState<SankeyMeta>({ generatedAt: "", currency: "AUD", budgets: [] });
+  const [recurring, setRecurring] = useState<RecurringReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Null when the local API isn't running; the page is then read-only over the static JSON.
+  const [categories, setCategories] = useState<string[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editStatus, setEditStatus] = useState<string | null>(null);
+
+  const loadDataset = useCallback(async (base: string) => {
+    const [transactionsResponse, uncategorizedResponse, sankeyMetaResponse, recurringResponse] = await Promise.all([
+      fetch(`${base}/transactions.json`),
+      fetch(`${base}/uncategorized.json`),
+      fetch(`${base}/sankey.json`),
+      fetch(`${base}/recurring.json`)
+    ]);
+
+    if (!transactionsResponse.ok) {
+      throw new Error("Missing /transactions.json. Run ingestion first.");
+    }
+
+    const transactionsJson = (await transactionsResponse.json()) as RawTransaction[];
+    setTransactions(transactionsJson);
+
+    if (uncategorizedResponse.ok) {
+      const uncategorizedJson = (await uncategorizedResponse.json()) as UncategorizedTransaction[];
+      setUncategorized(uncategorizedJson);
+    }
+
+    if (sankeyMetaResponse.ok) {
+      const sankeyMetaJson = (await sankeyMetaResponse.json()) as {
+        generatedAt?: string;
+        currency?: string;
+        budgets?: BudgetStatus[];
+      };
+      setMeta({
+        generatedAt: sankeyMetaJson.generatedAt ?? "",
+        currency: sankeyMetaJson.currency ?? "AUD",
+        // The CLI evaluates budgets for the latest month or year; the page re-evaluates them for the chosen period.
+        budgets: (sankeyMetaJson.budgets ?? []).map(({ scope, name, amount, period }) => ({ scope, name, amount, period }))
+      });
+    }
+
+    // Older outputs predate recurring detection; the panel is hidden until the next ingest.
+    setRecurring(recurringResponse.ok ? ((await recurringResponse.json().catch(() => null)) as RecurringReport | null) : null);
+  }, []);
+
+  const loadCategories = useCallback(async (): Promise<boolean> => {
+    try {
+      const response = await fetch("/api/categories");
+      if (!response.ok) {
+        return false;
+      }
+      setCategories((await response.json()) as string[]);
+      return true;
+    } catch {
+      return false;
+    }
+  }, []);
 
   useEffect(() => {
     async function load() {
       try {
-        const [transactionsResponse, uncategorizedResponse, sankeyMetaResponse] = await Promise.all([
-          fetch("/transactions.json"),
-          fetch("/uncategorized.json"),
-          fetch("/sankey.json")
-        ]);
-
-        if (!transactionsResponse.ok) {
-          throw new Error("Missing /transactions.json. Run ingestion first.");
-        }
-
-        const transactionsJson = (await transactionsResponse.json()) as RawTransaction[];
-        setTransactions(transactionsJson);
-
-        if (uncategorizedResponse.ok) {
-          const uncategorizedJson = (await uncategorizedResponse.json()) as UncategorizedTransaction[];
-          setUncategorized(uncategorizedJson);
-        }
-
-        if (sankeyMetaResponse.ok) {
-          const sankeyMetaJson = (await sankeyMetaResponse.json()) as { generatedAt?: string; currency?: string };
-          setMeta({
-            generatedAt: sankeyMetaJson.generatedAt ?? "",
-            currency: sankeyMetaJson.currency ?? "AUD"
-          });
-        }
+        const apiAvailable = await loadCategories();
+        await loadDataset(apiAvailable ? "/api" : "");
       } catch (loadError) {
         const message = loadError instanceof Error ? loadError.message : String(loadError);
         setError(message);
@@ -478,25 +1850,185 @@ export default function App() {
     }
 
     void load();
+  }, [loadCategories, loadDataset]);
+
+  const apiAvailable = categories !== null;
+
+  // Without the API, the dev server announces when `ingest` (e.g. `--watch`) republishes web/public.
+  useEffect(() => {
+    const hot = import.meta.hot;
+    if (!hot || apiAvailable) {
+      return;
+    }
+    const reload = () => {
+      loadDataset("")
+        .then(() => setError(null))
+        .catch((loadError: unknown) => setError(loadError instanceof Error ? loadError.message : String(loadError)));
+    };
+    hot.on("personal-spend:dataset", reload);
+    return () => hot.off("personal-spend:dataset", reload);
+  }, [apiAvailable, loadDataset]);
+
+  // The API re-runs ingestion after every edit and announces it, so every open tab picks up the new data.
+  useEffect(() => {
+    if (!apiAvailable) {
+      return;
+    }
+    const events = new EventSource("/api/events");
+    events.addEventListener("dataset", () => {
+      void loadCategories();
+      void loadDataset("/api").catch((loadError: unknown) => {
+        setEditStatus(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+    });
+    return () => events.close();
+  }, [apiAvailable, loadCategories, loadDataset]);
+
+  const saveEdit = useCallback(async (edit: CategoryEdit) => {
+    setSaving(true);
+    setEditStatus(null);
+    try {
+      const response = await fetch(SAVE_ENDPOINTS[edit.kind], {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          edit.kind === "transaction"
+            ? { id: edit.id, category: edit.category }
+            : edit.kind === "split"
+              ? { id: edit.id, shares: edit.shares }
+              : { category: edit.category, contains: edit.contains }
+        )
+      });
+      const body = (await response.json()) as { error?: string; uncategorizedCount?: number };
+      if (!response.ok) {
+        throw new Error(body.error ?? `Save failed with status ${response.status}`);
+      }
+      setEditStatus(
+        edit.kind === "transaction"
+          ? `Saved override -> ${edit.category}. ${body.uncategorizedCount ?? 0} left to categorize.`
+          : edit.kind === "split"
+            ? `${Object.keys(edit.shares).length > 0 ? "Saved" : "Removed"} split for ${edit.id}.`
+            : `Added rule "${edit.contains}" -> ${edit.category}. ${body.uncategorizedCount ?? 0} left to categorize.`
+      );
+    } catch (saveError) {
+      setEditStatus(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
   }, []);
 
-  const viz = useMemo(() => buildVisualization(transactions, meta.currency), [transactions, meta.currency]);
-  const flowTitle = "Flow: Income -> Spending + Savings";
-  const chartHeight = useMemo(() => {
-    const branchCount = Math.max(viz.outflowCount, viz.incomeStats.length, 1);
-    const dynamicHeight = 280 + branchCount * 30;
-    return Math.max(360, Math.min(620, dynamicHeight));
-  }, [viz.outflowCount, viz.incomeStats.length]);
-  const nodePadding = useMemo(() => {
-    const branchCount = viz.outflowCount;
-    if (branchCount >= 14) {
-      return 12;
+  const countSimilar = useCallback(
+    (needle: string) => uncategorized.filter((transaction) => normalizeNarrative(transaction.narrative).includes(needle)).length,
+    [uncategorized]
+  );
+
+  const [period, setPeriod] = useState<PeriodSelection>(() => parsePeriodParams(window.location.search));
+  const [compare, setCompare] = useState<CompareMode>(() => parseCompareParam(window.location.search));
+  const [tag, setTag] = useState(() => parseTagParam(window.location.search));
+
+  useEffect(() => {
+    const search = writeTagParam(writeCompareParam(writePeriodParams(window.location.search, period), compare), tag);
+    if (search !== window.location.search) {
+      window.history.replaceState(null, "", `${window.location.pathname}${search}${window.location.hash}`);
     }
-    if (branchCount >= 10) {
-      return 18;
+  }, [period, compare, tag]);
+
+  // Split transactions become one row per category for every total below; the explorer still lists them whole.
+  const allocatedTransactions = useMemo(() => expandAllocations(transactions), [transactions]);
+  // With a tag picked, the Sankey, stats and comparison only see that tag's transactions; budgets still see everything.
+  const taggedTransactions = useMemo(
+    () => (tag ? allocatedTransactions.filter((transaction) => hasTag(transaction, tag)) : allocatedTransactions),
+    [allocatedTransactions, tag]
+  );
+  const transactionDates = useMemo(
+    () => [...new Set(transactions.map((transaction) => transaction.date))].sort(),
+    [transactions]
+  );
+  const range = useMemo(
+    () => resolvePeriod(period, transactionDates.length > 0 ? transactionDates[transactionDates.length - 1] : null),
+    [period, transactionDates]
+  );
+  const periodTransactions = useMemo(
+    () => taggedTransactions.filter((transaction) => isInRange(transaction.date, range)),
+    [taggedTransactions, range]
+  );
+  const allTags = useMemo(() => summarizeTags(transactions).map((entry) => entry.tag).sort((a, b) => a.localeCompare(b)), [transactions]);
+  const periodTags = useMemo(
+    () => summarizeTags(transactions.filter((transaction) => isInRange(transaction.date, range))),
+    [transactions, range]
+  );
+  const periodUncategorized = useMemo(
+    () => uncategorized.filter((transaction) => isInRange(transaction.date, range)),
+    [uncategorized, range]
+  );
+
+  const categoryColors = useMemo(() => assignCategoryColors(allocatedTransactions), [allocatedTransactions]);
+  const budgetStatus = useMemo(() => {
+    const firstDate = transactionDates[0];
+    const latestDate = transactionDates[transactionDates.length - 1];
+    if (meta.budgets.length === 0 || !firstDate || !latestDate) {
+      return [];
     }
-    return 24;
-  }, [viz.outflowCount]);
+    return evaluateBudgets(allocatedTransactions, meta.budgets, {
+      from: range.from ?? firstDate,
+      to: range.to ?? latestDate,
+      asOf: latestDate
+    });
+  }, [allocatedTransactions, transactionDates, meta.budgets, range]);
+  const previousRange = useMemo(() => comparisonRange(period, range, compare), [period, range, compare]);
+  const comparison = useMemo(() => {
+    if (!previousRange?.from || !previousRange.to || !range.from || !range.to) {
+      return null;
+    }
+    const previousTransactions = taggedTransactions.filter((transaction) => isInRange(transaction.date, previousRange));
+    const [chartFrom, chartTo] = previousRange.from < range.from ? [previousRange.from, range.to] : [range.from, previousRange.to];
+    return {
+      spend: compareSpend(periodTransactions, previousTransactions),
+      monthly: monthlyCategorySpend(taggedTransactions, chartFrom, chartTo)
+    };
+  }, [taggedTransactions, periodTransactions, range, previousRange]);
+  const viz = useMemo(
+    () => buildVisualization(periodTransactions, meta.currency, categoryColors),
+    [periodTransactions, meta.currency, categoryColors]
+  );
+  const [drill, setDrill] = useState<DrillState | null>(null);
+  const merchantOf = useMemo(() => spendMerchantResolver(periodTransactions), [periodTransactions]);
+  const drilldown = useMemo(
+    () =>
+      drill
+        ? buildCategoryDrilldown(periodTransactions, drill.category, meta.currency, categoryColors.get(drill.category) ?? "#8f9eb4")
+        : null,
+    [drill, periodTransactions, meta.currency, categoryColors]
+  );
+  const drillTransactions = useMemo(() => {
+    if (!drill?.merchant) {
+      return [];
+    }
+    const merchants = new Set(drill.merchant.merchants);
+    return periodTransactions
+      .filter(
+        (transaction) =>
+          isSpendTransaction(transaction) && transaction.category === drill.category && merchants.has(merchantOf(transaction))
+      )
+      .sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+  }, [drill, periodTransactions, merchantOf]);
+  const selectNode = useCallback(
+    (node: RechartsSankeyNode) => {
+      if (node.kind === "category" && node.name) {
+        setDrill({ category: node.name, merchant: null });
+        return;
+      }
+      const merchant = drilldown?.merchants.find((entry) => `merchant:${entry.label}` === node.nodeKey);
+      if (drill && merchant) {
+        setDrill({ category: drill.category, merchant: { label: merchant.label, merchants: merchant.merchants } });
+      }
+    },
+    [drill, drilldown]
+  );
+  const flowScope = tag ? `${range.label}, ${formatTag(tag)} only` : range.label;
+  const flowTitle = drill
+    ? `Flow: ${drill.category} -> Merchants (${flowScope})`
+    : `Flow: Income -> Groups -> Categories + Savings (${flowScope})`;
 
   const subtitle = useMemo(() => {
     if (!meta.generatedAt) {
@@ -518,7 +2050,8 @@ export default function App() {
       <main className="page-shell">
         <h1>Personal Spend Sankey</h1>
         <p className="error">{error}</p>
-        <p className="hint">Run `npm run ingest -- --input ./Data_export_23022026.csv` then reload.</p>
+        <p className="hint">Run `npm run ingest -- --input ./Data_export_23022026.csv` then reload, or import a CSV below.</p>
+        <ImportPanel currency={meta.currency} apiAvailable={apiAvailable} />
       </main>
     );
   }
@@ -531,6 +2064,27 @@ export default function App() {
         <p className="subtitle">{subtitle}</p>
       </header>
 
+      <PeriodPicker
+        selection={period}
+        range={range}
+        dates={transactionDates}
+        compare={compare}
+        onChange={setPeriod}
+        onCompareChange={setCompare}
+      />
+      {allTags.length > 0 ? (
+        <div className="tag-filter">
+          <select value={tag} onChange={(event) => setTag(event.target.value)} aria-label="Tag">
+            <option value="">All spend</option>
+            {allTags.map((entry) => (
+              <option key={entry} value={entry}>
+                Only {formatTag(entry)}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : null}
+
       <section className="stats">
         <article>
           <h2>Total Income</h2>
@@ -544,52 +2098,103 @@ export default function App() {
           <h2>Savings</h2>
           <p>{formatCurrency(viz.savings, meta.currency)}</p>
         </article>
+        <article>
+          <h2>Savings Rate</h2>
+          <p>{viz.savingsRate === null ? "-" : formatPercent(viz.savingsRate)}</p>
+        </article>
         <article>
           <h2>Uncategorized</h2>
-          <p>{uncategorized.length}</p>
+          <p>{periodUncategorized.length}</p>
         </article>
       </section>
 
       <section className="studio">
-        <div className="canvas-panel">
-          <div className="canvas-header">
-            <h2>{flowTitle}</h2>
-          </div>
-
-          <div className="chart" style={{ height: chartHeight }}>
-            <ResponsiveContainer width="100%" height={chartHeight}>
-              <Sankey
-                data={viz.sankey}
-                nodePadding={nodePadding}
-                nodeWidth={15}
-                linkCurvature={0.3}
-                iterations={64}
-                sort={false}
-                margin={{ top: 34, right: 340, bottom: 20, left: 220 }}
-                node={NodeShape}
-                link={LinkShape}
-              >
-                <Tooltip content={<FlowTooltip currency={meta.currency} />} />
-              </Sankey>
-            </ResponsiveContainer>
-          </div>
-        </div>
+        <FlowChart
+          title={flowTitle}
+          data={drilldown ? drilldown.sankey : viz.sankey}
+          branchCount={drilldown ? drilldown.merchants.length : Math.max(viz.outflowCount, viz.incomeStats.length)}
+          currency={meta.currency}
+          selectedKey={drill?.merchant ? `merchant:${drill.merchant.label}` : drill ? `category:${drill.category}` : null}
+          onNodeSelect={selectNode}
+        >
+          <DrillBreadcrumbs drill={drill} onNavigate={setDrill} />
+          {drilldown && drilldown.merchants.length === 0 ? (
+            <p className="hint">No {drill?.category} spend in this period.</p>
+          ) : null}
+        </FlowChart>
       </section>
 
+      {drill?.merchant ? (
+        <DrillTransactions
+          title={`${drill.category} / ${drill.merchant.label}`}
+          transactions={drillTransactions}
+          merchantOf={merchantOf}
+          currency={meta.currency}
+        />
+      ) : null}
+
+      <CategoryBudgets
+        categoryStats={viz.categoryStats}
+        budgets={budgetStatus}
+        colors={categoryColors}
+        currency={meta.currency}
+      />
+
+      {periodTags.length > 0 ? <TagPanel tags={periodTags} selected={tag} currency={meta.currency} onSelect={setTag} /> : null}
+
+      {comparison && previousRange ? (
+        <ComparisonPanel
+          currentLabel={range.label}
+          previousLabel={previousRange.label}
+          comparison={comparison.spend}
+          monthly={comparison.monthly}
+          colors={categoryColors}
+          currency={meta.currency}
+        />
+      ) : null}
+
+      {recurring ? <RecurringPanel report={recurring} currency={meta.currency} /> : null}
+
       <section className="uncategorized">
         <h2>Needs Categorization</h2>
-        {uncategorized.length === 0 ? (
-          <p>All debit transactions are categorized.</p>
+        {!apiAvailable ? (
+          <p className="hint">Run `npm run serve` alongside `npm run web` to categorize from here.</p>
+        ) : null}
+        {editStatus ? <p className="hint">{editStatus}</p> : null}
+        {periodUncategorized.length === 0 ? (
+          <p>All debit transactions in this period are categorized.</p>
         ) : (
           <ul>
-            {uncategorized.slice(0, 24).map((transaction) => (
-              <li key={transaction.id}>
-                <strong>{transaction.date}</strong> | {transaction.merchant} | {formatCurrency(transaction.amount, meta.currency)}
-              </li>
+            {periodUncategorized.slice(0, 24).map((transaction) => (
+              <UncategorizedRow
+                key={transaction.id}
+                transaction={transaction}
+                currency={meta.currency}
+                editable={apiAvailable}
+                saving={saving}
+                countSimilar={countSimilar}
+                onSave={(edit) => void saveEdit(edit)}
+              />
             ))}
           </ul>
         )}
+        <datalist id="category-options">
+          {(categories ?? []).map((category) => (
+            <option key={category} value={category} />
+          ))}
+        </datalist>
       </section>
+
+      <TransactionExplorer
+        transactions={transactions}
+        currency={meta.currency}
+        editable={apiAvailable}
+        saving={saving}
+        status={editStatus}
+        onSave={(edit) => void saveEdit(edit)}
+      />
+
+      <ImportPanel currency={meta.currency} apiAvailable={apiAvailable} />
     </main>
   );
 }
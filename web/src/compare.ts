@@ -0,0 +1,129 @@
+import { isSpendTransaction } from "@personal-spend/core";
+import { spendMerchantResolver, type RawTransaction } from "./transactions";
+
+export type CategoryChange = {
+  category: string;
+  current: number;
+  previous: number;
+  change: number;
+  // Null when there was nothing to compare against (a new category).
+  changePercent: number | null;
+  status: "new" | "gone" | "changed";
+};
+
+export type MerchantChange = {
+  merchant: string;
+  category: string;
+  total: number;
+};
+
+export type SpendComparison = {
+  currentTotal: number;
+  previousTotal: number;
+  categories: CategoryChange[];
+  newMerchants: MerchantChange[];
+  goneMerchants: MerchantChange[];
+};
+
+export type MonthlyCategorySpend = {
+  categories: string[];
+  rows: Array<{ month: string } & Record<string, number | string>>;
+};
+
+const MIN_AMOUNT = 0.005;
+
+function spendBy(transactions: RawTransaction[], keyOf: (transaction: RawTransaction) => string) {
+  const totals = new Map<string, { total: number; category: string }>();
+  for (const transaction of transactions.filter(isSpendTransaction)) {
+    const key = keyOf(transaction);
+    const existing = totals.get(key) ?? { total: 0, category: transaction.category };
+    existing.total += transaction.amount;
+    totals.set(key, existing);
+  }
+  return totals;
+}
+
+function merchantsOnlyIn(
+  side: Map<string, { total: number; category: string }>,
+  other: Map<string, { total: number; category: string }>
+): MerchantChange[] {
+  return [...side.entries()]
+    .filter(([merchant, entry]) => entry.total > MIN_AMOUNT && (other.get(merchant)?.total ?? 0) <= MIN_AMOUNT)
+    .map(([merchant, entry]) => ({ merchant, category: entry.category, total: entry.total }))
+    .sort((a, b) => b.total - a.total);
+}
+
+export function compareSpend(current: RawTransaction[], previous: RawTransaction[]): SpendComparison {
+  const currentCategories = spendBy(current, (transaction) => transaction.category);
+  const previousCategories = spendBy(previous, (transaction) => transaction.category);
+  const merchantOf = spendMerchantResolver([...current, ...previous]);
+  const currentMerchants = spendBy(current, merchantOf);
+  const previousMerchants = spendBy(previous, merchantOf);
+
+  const categories = [...new Set([...currentCategories.keys(), ...previousCategories.keys()])]
+    .map((category): CategoryChange => {
+      const currentTotal = currentCategories.get(category)?.total ?? 0;
+      const previousTotal = previousCategories.get(category)?.total ?? 0;
+      const status = previousTotal <= MIN_AMOUNT ? "new" : currentTotal <= MIN_AMOUNT ? "gone" : "changed";
+      return {
+        category,
+        current: currentTotal,
+        previous: previousTotal,
+        change: currentTotal - previousTotal,
+        changePercent: previousTotal > MIN_AMOUNT ? (currentTotal - previousTotal) / previousTotal : null,
+        status
+      };
+    })
+    .filter((entry) => entry.current > MIN_AMOUNT || entry.previous > MIN_AMOUNT)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  return {
+    currentTotal: categories.reduce((sum, entry) => sum + entry.current, 0),
+    previousTotal: categories.reduce((sum, entry) => sum + entry.previous, 0),
+    categories,
+    newMerchants: merchantsOnlyIn(currentMerchants, previousMerchants),
+    goneMerchants: merchantsOnlyIn(previousMerchants, currentMerchants)
+  };
+}
+
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let year = Number.parseInt(from.slice(0, 4), 10);
+  let month = Number.parseInt(from.slice(5, 7), 10);
+  const last = to.slice(0, 7);
+  while (true) {
+    const value = `${year}-${String(month).padStart(2, "0")}`;
+    if (value > last) {
+      return months;
+    }
+    months.push(value);
+    month = month === 12 ? 1 : month + 1;
+    year = month === 1 ? year + 1 : year;
+  }
+}
+
+// One row per calendar month (empty months included) with a spend column per category, for a stacked chart.
+export function monthlyCategorySpend(transactions: RawTransaction[], from: string, to: string): MonthlyCategorySpend {
+  const spend = transactions.filter(
+    (transaction) => isSpendTransaction(transaction) && transaction.date >= from && transaction.date <= to
+  );
+  const categoryTotals = spendBy(spend, (transaction) => transaction.category);
+  const categories = [...categoryTotals.entries()]
+    .filter(([, entry]) => entry.total > MIN_AMOUNT)
+    .sort((a, b) => b[1].total - a[1].total)
+    .map(([category]) => category);
+
+  const byMonth = new Map(monthsBetween(from, to).map((month) => [month, new Map<string, number>()]));
+  for (const transaction of spend) {
+    const totals = byMonth.get(transaction.date.slice(0, 7));
+    totals?.set(transaction.category, (totals.get(transaction.category) ?? 0) + transaction.amount);
+  }
+
+  return {
+    categories,
+    rows: [...byMonth.entries()].map(([month, totals]) => ({
+      month,
+      ...Object.fromEntries(categories.map((category) => [category, Number((totals.get(category) ?? 0).toFixed(2))]))
+    }))
+  };
+}
@@ -0,0 +1,98 @@
+import type { RawTransaction } from "./transactions";
+
+export type ExplorerFilters = {
+  text: string;
+  category: string;
+  // Without the leading `#`.
+  tag: string;
+  accountId: string;
+  direction: "" | RawTransaction["direction"];
+  // Kept as typed so a half-entered number doesn't reset the input; blank means no bound.
+  minAmount: string;
+  maxAmount: string;
+  from: string;
+  to: string;
+};
+
+export type ExplorerColumn = keyof Pick<
+  RawTransaction,
+  "date" | "merchant" | "narrative" | "accountId" | "direction" | "amount" | "category" | "categoryReason" | "tags"
+>;
+
+export type ExplorerSort = {
+  column: ExplorerColumn;
+  descending: boolean;
+};
+
+export const EXPLORER_COLUMNS: Array<{ column: ExplorerColumn; label: string }> = [
+  { column: "date", label: "Date" },
+  { column: "merchant", label: "Merchant" },
+  { column: "narrative", label: "Narrative" },
+  { column: "accountId", label: "Account" },
+  { column: "direction", label: "Direction" },
+  { column: "amount", label: "Amount" },
+  { column: "category", label: "Category" },
+  { column: "categoryReason", label: "Reason" },
+  { column: "tags", label: "Tags" }
+];
+
+export const EMPTY_FILTERS: ExplorerFilters = {
+  text: "",
+  category: "",
+  tag: "",
+  accountId: "",
+  direction: "",
+  minAmount: "",
+  maxAmount: "",
+  from: "",
+  to: ""
+};
+
+function parseBound(value: string): number | null {
+  const parsed = Number.parseFloat(value);
+  return value.trim() === "" || Number.isNaN(parsed) ? null : parsed;
+}
+
+// Amount bounds apply to the absolute amount, like the `amount` condition in category rules.
+export function filterTransactions(transactions: RawTransaction[], filters: ExplorerFilters): RawTransaction[] {
+  const needle = filters.text.trim().toLowerCase();
+  const minAmount = parseBound(filters.minAmount);
+  const maxAmount = parseBound(filters.maxAmount);
+
+  return transactions.filter((transaction) => {
+    const amount = Math.abs(transaction.amount);
+    return (
+      (needle === "" ||
+        [
+          transaction.narrative,
+          transaction.merchant,
+          transaction.merchantRaw ?? "",
+          transaction.category,
+          transaction.categoryReason,
+          transaction.id,
+          transaction.note ?? "",
+          ...(transaction.tags ?? []).map((tag) => `#${tag}`)
+        ].some((value) => value.toLowerCase().includes(needle))) &&
+      (filters.category === "" || transaction.category === filters.category) &&
+      (filters.tag === "" || (transaction.tags ?? []).includes(filters.tag)) &&
+      (filters.accountId === "" || transaction.accountId === filters.accountId) &&
+      (filters.direction === "" || transaction.direction === filters.direction) &&
+      (minAmount === null || amount >= minAmount) &&
+      (maxAmount === null || amount <= maxAmount) &&
+      (filters.from === "" || transaction.date >= filters.from) &&
+      (filters.to === "" || transaction.date <= filters.to)
+    );
+  });
+}
+
+export function sortTransactions(transactions: RawTransaction[], sort: ExplorerSort): RawTransaction[] {
+  const direction = sort.descending ? -1 : 1;
+  return [...transactions].sort((a, b) => {
+    const left = a[sort.column];
+    const right = b[sort.column];
+    const order =
+      typeof left === "number" && typeof right === "number" ? left - right : String(left ?? "").localeCompare(String(right ?? ""));
+    // Ties fall back to date then id so the order is stable between renders.
+    return order * direction || a.date.localeCompare(b.date) * direction || a.id.localeCompare(b.id);
+  });
+}
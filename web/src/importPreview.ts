@@ -0,0 +1,123 @@
+import {
+  buildCategoryMatcher,
+  buildMerchantResolver,
+  buildSankeyData,
+  categorizeTransactions,
+  convertCurrencies,
+  dedupeTransactions,
+  DEFAULT_CURRENCY,
+  DEFAULT_LINK_WINDOWS,
+  linkTransactions,
+  loadBankProfiles,
+  loadFxRates,
+  normalizeTransactions,
+  parseCsvRows,
+  resolveMerchants,
+  type BankRow,
+  type CategoryRulesFile,
+  type FxRatesFile,
+  type MerchantsFile,
+  type NormalizedTransaction,
+  type OverridesFile,
+  type ProfilesFile,
+  type RowRejection,
+  type SankeyData
+} from "@personal-spend/core";
+import yaml from "js-yaml";
+import categoriesYaml from "../../rules/categories.yml?raw";
+import fxRatesYaml from "../../rules/fx-rates.yml?raw";
+import merchantsYaml from "../../rules/merchants.yml?raw";
+import overridesYaml from "../../rules/overrides.yml?raw";
+import profilesYaml from "../../rules/profiles.yml?raw";
+
+export type RuleFiles = {
+  categories: string;
+  overrides: string;
+  profiles: string;
+  fxRates: string;
+  merchants: string;
+};
+
+export type ImportPreview = {
+  profile: string;
+  rows: BankRow[];
+  rejections: RowRejection[];
+  duplicateCount: number;
+  transactions: NormalizedTransaction[];
+  sankey: SankeyData;
+};
+
+// Bundled at build time (and hot-reloaded in dev), so previews use the same rules as the CLI.
+export const PROJECT_RULE_FILES: RuleFiles = {
+  categories: categoriesYaml,
+  overrides: overridesYaml,
+  profiles: profilesYaml,
+  fxRates: fxRatesYaml,
+  merchants: merchantsYaml
+};
+
+export function ruleFileKind(fileName: string): keyof RuleFiles {
+  const name = fileName.toLowerCase();
+  if (name.includes("override")) {
+    return "overrides";
+  }
+  if (name.includes("profile")) {
+    return "profiles";
+  }
+  if (name.includes("merchant")) {
+    return "merchants";
+  }
+  if (name.includes("fx") || name.includes("rate")) {
+    return "fxRates";
+  }
+  return "categories";
+}
+
+function parseYaml<T>(label: string, content: string, fallback: T): T {
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(content, { schema: yaml.CORE_SCHEMA });
+  } catch (error) {
+    throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parsed && typeof parsed === "object" ? (parsed as T) : fallback;
+}
+
+export function listProfileNames(ruleFiles: RuleFiles): string[] {
+  return loadBankProfiles(parseYaml<ProfilesFile>("profiles", ruleFiles.profiles, { profiles: {} })).map(
+    (profile) => profile.name
+  );
+}
+
+export function buildImportPreview(
+  csvText: string,
+  ruleFiles: RuleFiles,
+  forcedProfile: string | null,
+  reportingCurrency = DEFAULT_CURRENCY
+): ImportPreview {
+  const profiles = loadBankProfiles(parseYaml<ProfilesFile>("profiles", ruleFiles.profiles, { profiles: {} }));
+  const matcher = buildCategoryMatcher(
+    parseYaml<CategoryRulesFile>("categories", ruleFiles.categories, { rules: {} }),
+    parseYaml<OverridesFile>("overrides", ruleFiles.overrides, {})
+  );
+
+  // Rejected rows are already left out, matching what an import would write to the ledger.
+  const { profile, rows, rejections } = parseCsvRows(csvText, profiles, forcedProfile);
+  const deduped = dedupeTransactions(normalizeTransactions(rows, profile));
+  const merchantResolver = buildMerchantResolver(parseYaml<MerchantsFile>("merchants", ruleFiles.merchants, {}));
+  const fx = loadFxRates(parseYaml<FxRatesFile>("fx-rates", ruleFiles.fxRates, { rates: {} }), reportingCurrency);
+  const transactions = linkTransactions(
+    categorizeTransactions(resolveMerchants(convertCurrencies(deduped.transactions, fx), merchantResolver), matcher),
+    matcher,
+    DEFAULT_LINK_WINDOWS
+  );
+
+  return {
+    profile: profile.name,
+    rows,
+    rejections,
+    duplicateCount: deduped.duplicateCount,
+    transactions,
+    sankey: buildSankeyData(transactions, [], fx.reportingCurrency)
+  };
+}
@@ -0,0 +1,202 @@
+export type PeriodKind = "all" | "month" | "quarter" | "year" | "rolling30" | "custom";
+
+export type PeriodSelection = {
+  kind: PeriodKind;
+  // YYYY-MM, YYYY-Qn or YYYY for month/quarter/year; empty or invalid means the latest period in the data.
+  value: string;
+  from: string;
+  to: string;
+};
+
+export type CompareMode = "none" | "previous" | "year";
+
+export type DateRange = {
+  from: string | null;
+  to: string | null;
+  label: string;
+};
+
+export const PERIOD_KINDS: Array<{ kind: PeriodKind; label: string }> = [
+  { kind: "all", label: "All time" },
+  { kind: "month", label: "Month" },
+  { kind: "quarter", label: "Quarter" },
+  { kind: "year", label: "Year" },
+  { kind: "rolling30", label: "Last 30 days" },
+  { kind: "custom", label: "Custom" }
+];
+
+export const COMPARE_MODES: Array<{ mode: CompareMode; label: string }> = [
+  { mode: "none", label: "No comparison" },
+  { mode: "previous", label: "vs previous period" },
+  { mode: "year", label: "vs same period last year" }
+];
+
+const PERIOD_PARAMS = ["period", "value", "from", "to"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export function parsePeriodParams(search: string): PeriodSelection {
+  const params = new URLSearchParams(search);
+  const kind = PERIOD_KINDS.find((entry) => entry.kind === params.get("period"))?.kind ?? "all";
+  const from = params.get("from") ?? "";
+  const to = params.get("to") ?? "";
+  return {
+    kind,
+    value: params.get("value") ?? "",
+    from: ISO_DATE.test(from) ? from : "",
+    to: ISO_DATE.test(to) ? to : ""
+  };
+}
+
+// Rewrites only the period keys so other state kept in the query string survives.
+export function writePeriodParams(search: string, selection: PeriodSelection): string {
+  const params = new URLSearchParams(search);
+  PERIOD_PARAMS.forEach((key) => params.delete(key));
+  if (selection.kind !== "all") {
+    params.set("period", selection.kind);
+  }
+  if ((selection.kind === "month" || selection.kind === "quarter" || selection.kind === "year") && selection.value) {
+    params.set("value", selection.value);
+  }
+  if (selection.kind === "custom") {
+    if (selection.from) {
+      params.set("from", selection.from);
+    }
+    if (selection.to) {
+      params.set("to", selection.to);
+    }
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function parseCompareParam(search: string): CompareMode {
+  const mode = new URLSearchParams(search).get("compare");
+  return COMPARE_MODES.find((entry) => entry.mode === mode)?.mode ?? "none";
+}
+
+export function writeCompareParam(search: string, mode: CompareMode): string {
+  const params = new URLSearchParams(search);
+  params.delete("compare");
+  if (mode !== "none") {
+    params.set("compare", mode);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function periodValueFor(kind: PeriodKind, date: string): string {
+  const year = date.slice(0, 4);
+  const month = Number.parseInt(date.slice(5, 7), 10);
+  if (kind === "month") {
+    return date.slice(0, 7);
+  }
+  if (kind === "quarter") {
+    return `${year}-Q${Math.ceil(month / 3)}`;
+  }
+  return year;
+}
+
+function lastDayOfMonth(year: number, month: number): string {
+  const day = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map((part) => Number.parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function addYears(date: string, years: number): string {
+  const [year, month, day] = date.split("-").map((part) => Number.parseInt(part, 10));
+  // Clamp 29 Feb onto 28 Feb instead of rolling into March.
+  const lastDay = Number.parseInt(lastDayOfMonth(year + years, month).slice(8), 10);
+  return `${year + years}-${String(month).padStart(2, "0")}-${String(Math.min(day, lastDay)).padStart(2, "0")}`;
+}
+
+function daysInRange(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000) + 1;
+}
+
+function rangeForValue(kind: "month" | "quarter" | "year", value: string): DateRange | null {
+  const match = value.match(/^(\d{4})(?:-(\d{2})|-Q([1-4]))?$/);
+  if (!match) {
+    return null;
+  }
+  const year = Number.parseInt(match[1], 10);
+  if (kind === "month" && match[2]) {
+    const month = Number.parseInt(match[2], 10);
+    if (month < 1 || month > 12) {
+      return null;
+    }
+    return { from: `${value}-01`, to: lastDayOfMonth(year, month), label: `${MONTH_NAMES[month - 1]} ${year}` };
+  }
+  if (kind === "quarter" && match[3]) {
+    const quarter = Number.parseInt(match[3], 10);
+    const firstMonth = (quarter - 1) * 3 + 1;
+    return {
+      from: `${year}-${String(firstMonth).padStart(2, "0")}-01`,
+      to: lastDayOfMonth(year, firstMonth + 2),
+      label: `Q${quarter} ${year}`
+    };
+  }
+  if (kind === "year" && !match[2] && !match[3]) {
+    return { from: `${year}-01-01`, to: `${year}-12-31`, label: String(year) };
+  }
+  return null;
+}
+
+// `latestDate` anchors the relative periods to the data rather than today, since exports are usually historical.
+export function resolvePeriod(selection: PeriodSelection, latestDate: string | null): DateRange {
+  if (selection.kind === "month" || selection.kind === "quarter" || selection.kind === "year") {
+    const latest = latestDate ? rangeForValue(selection.kind, periodValueFor(selection.kind, latestDate)) : null;
+    return rangeForValue(selection.kind, selection.value) ?? latest ?? { from: null, to: null, label: "All time" };
+  }
+  if (selection.kind === "rolling30") {
+    if (!latestDate) {
+      return { from: null, to: null, label: "Last 30 days" };
+    }
+    return { from: addDays(latestDate, -29), to: latestDate, label: `Last 30 days to ${latestDate}` };
+  }
+  if (selection.kind === "custom") {
+    const from = selection.from || null;
+    const to = selection.to || null;
+    return { from, to, label: `${from ?? "start"} to ${to ?? "latest"}` };
+  }
+  return { from: null, to: null, label: "All time" };
+}
+
+// The window a period is compared against: the one just before it, or the same dates a year earlier.
+export function comparisonRange(selection: PeriodSelection, range: DateRange, mode: CompareMode): DateRange | null {
+  if (mode === "none" || range.from === null || range.to === null) {
+    return null;
+  }
+  const kind = selection.kind;
+  if (kind === "month" || kind === "quarter" || kind === "year") {
+    const value =
+      mode === "year" ? periodValueFor(kind, addYears(range.from, -1)) : periodValueFor(kind, addDays(range.from, -1));
+    return rangeForValue(kind, value);
+  }
+  const from = mode === "year" ? addYears(range.from, -1) : addDays(range.from, -daysInRange(range.from, range.to));
+  const to = mode === "year" ? addYears(range.to, -1) : addDays(range.from, -1);
+  return { from, to, label: `${from} to ${to}` };
+}
+
+export function isInRange(date: string, range: DateRange): boolean {
+  return (range.from === null || date >= range.from) && (range.to === null || date <= range.to);
+}
+
+// Newest first, matching how the picker lists them.
+export function availablePeriodValues(kind: PeriodKind, dates: string[]): string[] {
+  if (kind !== "month" && kind !== "quarter" && kind !== "year") {
+    return [];
+  }
+  return [...new Set(dates.map((date) => periodValueFor(kind, date)))].sort((a, b) => b.localeCompare(a));
+}
+
+export function periodValueLabel(kind: PeriodKind, value: string): string {
+  if (kind !== "month" && kind !== "quarter" && kind !== "year") {
+    return value;
+  }
+  return rangeForValue(kind, value)?.label ?? value;
+}
@@ -0,0 +1,60 @@
+import type { RawTransaction } from "./transactions";
+
+export type SplitLine = {
+  category: string;
+  // As typed: an amount in the transaction's own currency, or a percentage like "40%".
+  share: string;
+};
+
+const PERCENT_SHARE = /^(\d+(?:\.\d+)?)\s*%$/;
+
+export function splitTotal(transaction: RawTransaction): number {
+  return Math.abs(transaction.originalAmount ?? transaction.amount);
+}
+
+export function initialSplitLines(transaction: RawTransaction): SplitLine[] {
+  if (transaction.allocations) {
+    return transaction.allocations.map((allocation) => ({
+      category: allocation.category,
+      share: Math.abs(allocation.originalAmount).toFixed(2)
+    }));
+  }
+  const category = transaction.category === "Uncategorized" ? "" : transaction.category;
+  return [
+    { category, share: splitTotal(transaction).toFixed(2) },
+    { category: "", share: "" }
+  ];
+}
+
+export function splitLineAmount(share: string, total: number): number | null {
+  const text = share.trim();
+  const percent = text.match(PERCENT_SHARE);
+  if (percent) {
+    return (Number.parseFloat(percent[1]) / 100) * total;
+  }
+  const amount = Number(text);
+  return text !== "" && Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+export function splitRemainder(lines: SplitLine[], total: number): number {
+  return lines.reduce((remainder, line) => remainder - (splitLineAmount(line.share, total) ?? 0), total);
+}
+
+// The `splits.<id>` entry for overrides.yml, or null while the lines are incomplete or repeat a category.
+export function splitLinesToShares(lines: SplitLine[], total: number): Record<string, number | string> | null {
+  const categories = lines.map((line) => line.category.trim());
+  if (
+    lines.length < 2 ||
+    categories.some((category) => category === "") ||
+    new Set(categories).size !== categories.length ||
+    lines.some((line) => splitLineAmount(line.share, total) === null)
+  ) {
+    return null;
+  }
+  return Object.fromEntries(
+    lines.map((line, index) => {
+      const share = line.share.trim();
+      return [categories[index], PERCENT_SHARE.test(share) ? share.replace(/\s+/g, "") : Number(share)];
+    })
+  );
+}
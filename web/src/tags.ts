@@ -0,0 +1,44 @@
+import { isSpendTransaction } from "@personal-spend/core";
+import type { RawTransaction } from "./transactions";
+
+export type TagSummary = {
+  tag: string;
+  spend: number;
+  count: number;
+};
+
+export function formatTag(tag: string): string {
+  return `#${tag}`;
+}
+
+export function hasTag(transaction: RawTransaction, tag: string): boolean {
+  return (transaction.tags ?? []).includes(tag);
+}
+
+// Whole transactions, so a split tagged transaction counts once; most spend first.
+export function summarizeTags(transactions: RawTransaction[]): TagSummary[] {
+  const totals = new Map<string, TagSummary>();
+  for (const transaction of transactions) {
+    for (const tag of transaction.tags ?? []) {
+      const entry = totals.get(tag) ?? { tag, spend: 0, count: 0 };
+      entry.count += 1;
+      entry.spend += isSpendTransaction(transaction) ? transaction.amount : 0;
+      totals.set(tag, entry);
+    }
+  }
+  return [...totals.values()].sort((a, b) => b.spend - a.spend || a.tag.localeCompare(b.tag));
+}
+
+export function parseTagParam(search: string): string {
+  return (new URLSearchParams(search).get("tag") ?? "").replace(/^#/, "").toLowerCase();
+}
+
+export function writeTagParam(search: string, tag: string): string {
+  const params = new URLSearchParams(search);
+  params.delete("tag");
+  if (tag) {
+    params.set("tag", tag);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
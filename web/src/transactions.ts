@@ -0,0 +1,116 @@
+import { isSpendTransaction } from "@personal-spend/core";
+
+export type RawTransaction = {
+  id: string;
+  date: string;
+  accountId: string;
+  merchant: string;
+  // Missing from outputs generated before merchant aliases, where `merchant` was the raw name.
+  merchantRaw?: string;
+  merchantReason?: string;
+  narrative: string;
+  amount: number;
+  // Missing from outputs generated before multi-currency support, where everything is in the reporting currency.
+  currency?: string;
+  originalAmount?: number;
+  fxRate?: number;
+  direction: "debit" | "credit" | "neutral";
+  category: string;
+  categoryReason: string;
+  group: string;
+  groupReason: string;
+  linkId: string | null;
+  linkType: "transfer" | "refund" | null;
+  // Present on split transactions (category "Split"); spend totals use these rows instead of the transaction.
+  allocations?: Array<{ category: string; group: string; amount: number; originalAmount: number }> | null;
+  tags?: string[];
+  note?: string | null;
+};
+
+export type UncategorizedTransaction = {
+  id: string;
+  date: string;
+  merchant: string;
+  merchantRaw?: string;
+  amount: number;
+  narrative: string;
+  categoryReason: string;
+};
+
+export const CATEGORY_COLORS = [
+  "#36b8ac",
+  "#6b67f2",
+  "#8f45e8",
+  "#35bf72",
+  "#8a62de",
+  "#f48b2b",
+  "#3d73e6",
+  "#eb59a7",
+  "#2ca2f6",
+  "#ef5e4a",
+  "#fc845b",
+  "#8f9eb4",
+  "#79c81d",
+  "#d18f2f"
+];
+
+export type AmountDisplay = "reporting" | "original";
+
+export function formatCurrency(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-AU", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 2
+    }).format(value);
+  } catch {
+    // Intl rejects malformed codes; still show the amount rather than failing the render.
+    return `${currency} ${value.toFixed(2)}`;
+  }
+}
+
+export function formatTransactionAmount(
+  transaction: RawTransaction,
+  reportingCurrency: string,
+  display: AmountDisplay = "reporting"
+): string {
+  if (display === "original" && transaction.currency) {
+    return formatCurrency(transaction.originalAmount ?? transaction.amount, transaction.currency);
+  }
+  return formatCurrency(transaction.amount, reportingCurrency);
+}
+
+export function isForeignTransaction(transaction: RawTransaction, reportingCurrency: string): boolean {
+  return transaction.currency !== undefined && transaction.currency !== reportingCurrency;
+}
+
+export function formatPercent(value: number): string {
+  if (value > 0 && value < 0.01) {
+    return "<1%";
+  }
+  return `${Math.round(value * 100)}%`;
+}
+
+// Refunds count against the purchase's merchant, as in the CLI's Sankey, so a refunded purchase nets out.
+export function spendMerchantResolver(transactions: RawTransaction[]): (transaction: RawTransaction) => string {
+  const purchaseMerchants = new Map(
+    transactions
+      .filter((transaction) => transaction.linkType === "refund" && transaction.direction === "debit")
+      .map((transaction) => [transaction.linkId, transaction.merchant])
+  );
+  return (transaction) =>
+    (transaction.linkType === "refund" ? purchaseMerchants.get(transaction.linkId) : undefined) ?? transaction.merchant;
+}
+
+// Ranked over the whole dataset so a category keeps its colour in every period, chart and comparison.
+export function assignCategoryColors(transactions: RawTransaction[]): Map<string, string> {
+  const totals = new Map<string, number>();
+  for (const transaction of transactions.filter(isSpendTransaction)) {
+    totals.set(transaction.category, (totals.get(transaction.category) ?? 0) + transaction.amount);
+  }
+  return new Map(
+    [...totals.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([category], index) => [category, CATEGORY_COLORS[index % CATEGORY_COLORS.length]])
+  );
+}
@@ -1,6 +1,39 @@
-import { defineConfig } from "vite";
+import path from "node:path";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+const DATASET_FILES = new Set(["transactions.json", "uncategorized.json", "sankey.json", "recurring.json"]);
+
+// Vite ignores edits to public files, so tell the page when `ingest` (or `ingest --watch`) republishes the dataset.
+// The four files are written back to back; one event goes out once they have all landed.
+function datasetReload(): Plugin {
+  return {
+    name: "personal-spend-dataset-reload",
+    apply: "serve",
+    configureServer(server) {
+      const publicDir = path.resolve(server.config.publicDir);
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const onChange = (file: string) => {
+        if (path.dirname(file) !== publicDir || !DATASET_FILES.has(path.basename(file))) {
+          return;
+        }
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => server.hot.send({ type: "custom", event: "personal-spend:dataset" }), 200);
+      };
+      server.watcher.on("add", onChange);
+      server.watcher.on("change", onChange);
+    }
+  };
+}
+
 export default defineConfig({
-  plugins: [react()]
+  plugins: [react(), datasetReload()],
+  server: {
+    // `npm run serve` hosts the editing API; without it the app falls back to the static JSON in web/public.
+    proxy: {
+      "/api": "http://127.0.0.1:5174"
+    }
+  }
 });